@@ -1,48 +1,42 @@
-import { appendNode, h, n } from './h';
-import { State, Pipe } from '../../../src/Pipe';
+import { h, mount, n, Pipe } from '../../../index';
 import './style.css'
 
-async function App() {
+async function fetchRemoteDate(): Promise<Date> {
+    try {
+        const data = await (await fetch('http://worldtimeapi.org/api/timezone/America/Denver')).json();
+        return new Date(data.datetime);
+    }
+    catch (err) {
+        console.error('fetchRemoteDate', err);
+        return new Date();
+    }
+}
 
-    const count1 = new State(0);
-    setInterval(() => count1.value = (count1.value % 100) + .05, 10);
+function App() {
 
-    const count2 = new State(0);
-    setInterval(() => count2.value = (count2.value % 100) + .06, 10);
+    // The timers only run while something is bound to them, and stop when the view is unmounted.
+    const count1 = Pipe.interval(10).project(ticks => (ticks * .05) % 100);
+    const count2 = Pipe.interval(10).project(ticks => (ticks * .06) % 100);
 
-    const mul = count1.combineWith(count2).map(([c1, c2]) => c1.value * c2.value);
+    const mul = count1.combineWith(count2).project(([c1, c2]) => c1.value * c2.value);
 
-    const time = new State(new Date());
-    setInterval(() => time.value = new Date(), 1000);
-    const tickTock = time.map(x => x.getSeconds() % 2 === 0);
+    const time = Pipe.interval(1000).project(() => new Date());
+    const tickTock = time.project(x => x.getSeconds() % 2 === 0);
 
-    async function fetchRemoteDate(): Promise<Date> {
-        try {
-            const data = await (await fetch('http://worldtimeapi.org/api/timezone/America/Denver')).json();
-            return new Date(data.datetime);
-        }
-        catch (err) {
-            console.error('fetchRemoteDate', err);
-            return new Date();
-        }
-    }
-    const remoteTime = new State<Date>(await fetchRemoteDate());
-    setInterval(async () => remoteTime.value = await fetchRemoteDate(), 10000);
+    const remoteTime = Pipe.interval(10000).projectAsync(() => fetchRemoteDate());
 
-    const fragment = document.createDocumentFragment();
-    appendNode(fragment, h('div',
+    return h('div',
         'Hello ', h('strong', 'Bob'), '! ',
-        h('strong', count1.map(v => v.toFixed(2))), ' x ', h('strong', count2.map(v => v.toFixed(2))), ' = ', h('strong', mul.map(v => v.toFixed(2))), '. ',
-        h('p', 'Local time is ', h('strong', time.combineWith(tickTock).map(([date, tickTock]) => tickTock.value ? date.value.toLocaleTimeString() : date.value.toLocaleTimeString().replaceAll(':', ' ')))),
-        h('p', 'Server time is ', remoteTime.map(rt => rt.toLocaleTimeString())),
+        h('strong', count1.project(v => v.toFixed(2))), ' x ', h('strong', count2.project(v => v.toFixed(2))), ' = ', h('strong', mul.project(v => v.toFixed(2))), '. ',
+        h('p', 'Local time is ', h('strong', { class: { tick: tickTock } }, time.combineWith(tickTock).project(([date, tickTock]) => tickTock.value ? date.value.toLocaleTimeString() : date.value.toLocaleTimeString().replaceAll(':', ' ')))),
+        h('p', 'Server time is ', remoteTime.project(rt => rt?.toLocaleTimeString() ?? '...')),
         h('p', 'A local promise: ', new Promise<Node>(resolve => setTimeout(() => resolve(n('Hi!')), 2000))),
         h('div', () => {
-            const canvas = h('canvas');
-            canvas.width = 500;
-            canvas.height = 200;
+            const canvas = h('canvas', { width: 500, height: 200 });
             const ctx = canvas.getContext('2d')!;
 
-            const drawer = count1.combineWith(count2).map(([{ value: c1 }, { value: c2 }]: Pipe<number>[]) => {
+            // Created while rendering, so it is disposed with the rest of the view.
+            const drawer = count1.combineWith(count2).project(([{ value: c1 }, { value: c2 }]: Pipe<number>[]) => {
                 const x1 = (canvas.width * (c2 / 25)) % canvas.width;
                 const y1 = canvas.height * ((1 + Math.sin(c1)) / 2);
 
@@ -66,13 +60,10 @@ async function App() {
                 ctx.fillRect((x2 + x1) % canvas.width, (y1 + y2) / 2, 1, 1);
             })
 
-            canvas.addEventListener('dispose', () => drawer.dispose());
-
             return canvas;
         }),
-    ));
-
-    return fragment;
+    );
 }
 
-App().then(fragment => document.getElementById('root')?.replaceWith(h('h1', 'Hello World!'), fragment, h('p', 'End')));
+// Render in a function so that the pipes and bindings belong to the scope that mount creates.
+mount(document.getElementById('root')!, () => [h('h1', 'Hello World!'), App(), h('p', 'End')]);
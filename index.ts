@@ -1 +1,12 @@
+export * from './src/devtools';
+export * from './src/dom';
+export * from './src/errors';
+export * from './src/forms';
+export * from './src/History';
+export * from './src/persistence';
 export * from './src/Pipe';
+export * from './src/replication';
+export * from './src/StateArray';
+export * from './src/StateMap';
+export * from './src/StateObject';
+export * from './src/StateSet';
@@ -0,0 +1,279 @@
+import { ArrayChange, Pipe, State } from './Pipe';
+import { StateArray } from './StateArray';
+import type { StateObject } from './StateObject';
+
+/** A writable pipe whose writes a {@link History} can record. */
+export type HistoryState = State<any> | StateArray<any> | StateObject<any>;
+
+type HistoryRecord =
+    | { pipe: State<any> | StateObject<any>, oldValue: any, newValue: any }
+    | { pipe: StateArray<any>, changes: ArrayChange<any>[] };
+
+interface HistoryEntry {
+    records: HistoryRecord[];
+    /** The notification pass of the last write in this entry. */
+    flushCount: number;
+    /** When the last write in this entry was made. */
+    time: number;
+}
+
+/**
+ * Records writes to a set of states so that they can be undone and redone.
+ * Writes made in one batch are undone together, as are writes made within {coalesce} milliseconds of each other.
+ * Array states record the changes made to them rather than copies of their items.
+ */
+export class History {
+    private _undo: HistoryEntry[] = [];
+    private _redo: HistoryEntry[] = [];
+    /** The entry that new writes are added to, until it is undone or the coalescing window passes. */
+    private _open?: HistoryEntry = undefined;
+    /** The last known value of each state, or the version of each array state. */
+    private _values = new Map<HistoryState, any>();
+    private _subscriptions = new Map<HistoryState, number>();
+    private _applying = false;
+    private _disposed = false;
+    private _maxDepth: number;
+    private _coalesce: number;
+    private _canUndo = new State(false);
+    private _canRedo = new State(false);
+
+    constructor(states: Iterable<HistoryState> = [], options?: { maxDepth?: number, coalesce?: number }) {
+        this._maxDepth = options?.maxDepth ?? 100;
+        this._coalesce = options?.coalesce ?? 0;
+
+        // Our pipes belong to the current scope, so stop recording when they are disposed.
+        this._canUndo.onDispose(() => this.dispose());
+
+        for (const state of states) {
+            this.add(state);
+        }
+    }
+
+    /** Whether there are writes to undo. */
+    get canUndo(): Pipe<boolean> {
+        return this._canUndo;
+    }
+
+    /** Whether there are undone writes to redo. */
+    get canRedo(): Pipe<boolean> {
+        return this._canRedo;
+    }
+
+    /** Starts recording writes to {state}. */
+    add(state: HistoryState): void {
+        if (this._disposed || this._subscriptions.has(state)) {
+            return;
+        }
+
+        this._values.set(state, this.current(state));
+        this._subscriptions.set(state, state.subscribe(() => this.record(state)));
+        state.onDispose(() => this.remove(state));
+    }
+
+    /** Stops recording writes to {state}, and forgets the writes already recorded. */
+    remove(state: HistoryState): void {
+        const token = this._subscriptions.get(state);
+        if (token === undefined) {
+            return;
+        }
+
+        if (!state.isDisposed) {
+            state.unsubscribe(token);
+        }
+        this._subscriptions.delete(state);
+        this._values.delete(state);
+
+        const forget = (entries: HistoryEntry[]) => entries.filter(entry => {
+            entry.records = entry.records.filter(x => x.pipe !== state);
+            return entry.records.length > 0;
+        });
+        this._undo = forget(this._undo);
+        this._redo = forget(this._redo);
+        if (this._open && !this._undo.includes(this._open)) {
+            this._open = undefined;
+        }
+        this.updateFlags();
+    }
+
+    /** Undoes the most recent entry, and returns whether there was one. */
+    undo(): boolean {
+        const entry = this._undo.pop();
+        if (!entry) {
+            return false;
+        }
+
+        this._open = undefined;
+        this._redo.push(entry);
+        this.apply([...entry.records].reverse(), true);
+        this.updateFlags();
+        return true;
+    }
+
+    /** Redoes the most recently undone entry, and returns whether there was one. */
+    redo(): boolean {
+        const entry = this._redo.pop();
+        if (!entry) {
+            return false;
+        }
+
+        this._open = undefined;
+        this._undo.push(entry);
+        this.apply(entry.records, false);
+        this.updateFlags();
+        return true;
+    }
+
+    /** Forgets every recorded write. */
+    clear(): void {
+        this._undo = [];
+        this._redo = [];
+        this._open = undefined;
+        this.updateFlags();
+    }
+
+    dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+
+        this._subscriptions.forEach((token, state) => {
+            if (!state.isDisposed) {
+                state.unsubscribe(token);
+            }
+        });
+        this._subscriptions.clear();
+        this._values.clear();
+        this._undo = [];
+        this._redo = [];
+        this._open = undefined;
+        this._canUndo.dispose();
+        this._canRedo.dispose();
+    }
+
+    private current(state: HistoryState): any {
+        return state instanceof StateArray
+            ? state.version
+            : Pipe.untracked(() => state.value);
+    }
+
+    private record(state: HistoryState) {
+        if (this._applying) {
+            // Keep up with writes made while undoing or redoing, without recording them.
+            this._values.set(state, this.current(state));
+            return;
+        }
+
+        let record: HistoryRecord;
+        if (state instanceof StateArray) {
+            const changes = state.changesSince(this._values.get(state));
+            this._values.set(state, state.version);
+            if (!changes) {
+                // The array has forgotten how it changed, for example because a transaction was rolled back,
+                // so the entries before this write can no longer be undone.
+                this.clear();
+                return;
+            }
+            if (changes.length === 0) {
+                return;
+            }
+            record = { pipe: state, changes };
+        }
+        else {
+            const oldValue = this._values.get(state);
+            const newValue = this.current(state);
+            if (oldValue === newValue) {
+                return;
+            }
+            this._values.set(state, newValue);
+            record = { pipe: state, oldValue, newValue };
+        }
+
+        const now = Date.now();
+        const entry = this._open;
+        if (entry && (entry.flushCount === Pipe.flushCount || now - entry.time < this._coalesce)) {
+            const existing = entry.records.find(x => x.pipe === state);
+            if (!existing) {
+                entry.records.push(record);
+            }
+            else if ('changes' in existing) {
+                existing.changes.push(...(record as typeof existing).changes);
+            }
+            else {
+                existing.newValue = (record as typeof existing).newValue;
+            }
+            entry.flushCount = Pipe.flushCount;
+            entry.time = now;
+        }
+        else {
+            this._open = { records: [record], flushCount: Pipe.flushCount, time: now };
+            this._undo.push(this._open);
+            if (this._undo.length > this._maxDepth) {
+                this._undo.splice(0, this._undo.length - this._maxDepth);
+            }
+        }
+
+        this._redo = [];
+        this.updateFlags();
+    }
+
+    private apply(records: HistoryRecord[], undo: boolean) {
+        this._applying = true;
+        try {
+            Pipe.batch(() => {
+                for (const record of records) {
+                    if ('changes' in record) {
+                        const changes = undo
+                            ? record.changes.map(invertChange).reverse()
+                            : record.changes;
+                        changes.forEach(change => applyChange(record.pipe, change));
+                    }
+                    else {
+                        record.pipe.value = undo ? record.oldValue : record.newValue;
+                    }
+                    this._values.set(record.pipe, this.current(record.pipe));
+                }
+            });
+        }
+        finally {
+            this._applying = false;
+        }
+    }
+
+    private updateFlags() {
+        if (!this._disposed) {
+            this._canUndo.value = this._undo.length > 0;
+            this._canRedo.value = this._redo.length > 0;
+        }
+    }
+}
+
+function invertChange<TItem>(change: ArrayChange<TItem>): ArrayChange<TItem> {
+    switch (change.type) {
+        case 'insert':
+            return { type: 'remove', index: change.index, item: change.item };
+        case 'remove':
+            return { type: 'insert', index: change.index, item: change.item };
+        case 'move':
+            return { type: 'move', from: change.to, to: change.from, item: change.item };
+        case 'update':
+            return { type: 'update', index: change.index, item: change.oldItem, oldItem: change.item };
+    }
+}
+
+function applyChange<TItem>(array: StateArray<TItem>, change: ArrayChange<TItem>) {
+    switch (change.type) {
+        case 'insert':
+            array.insert(change.index, change.item);
+            break;
+        case 'remove':
+            array.removeAt(change.index);
+            break;
+        case 'move':
+            array.move(change.from, change.to);
+            break;
+        case 'update':
+            array.set(change.index, change.item);
+            break;
+    }
+}
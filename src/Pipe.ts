@@ -1,46 +1,399 @@
+import { PipeDebugHook, PipeEdge, PipeGraph, PipeNode } from './devtools';
+import { DuplicateSubscriptionError, ListenerError, NotAnArrayError, PipeDisposedError, SingleItemError } from './errors';
+
 export type ListenerToken = number;
 
+export type PipeLifecycle = 'active' | 'disposed';
+
+export type AsyncStatus = 'idle' | 'pending' | 'resolved' | 'error';
+
+/** Runs {callback} after {ms} milliseconds, and returns a function that cancels it. */
+export type Scheduler = (callback: () => void, ms: number) => () => void;
+
+/** Schedules callbacks with `setTimeout`. */
+export const timeoutScheduler: Scheduler = (callback, ms) => {
+    const handle = setTimeout(callback, ms);
+    return () => clearTimeout(handle);
+};
+
+declare global {
+    interface SymbolConstructor {
+        /** The well-known symbol of interoperable observables, which not every runtime defines. */
+        readonly observable: unique symbol;
+    }
+}
+
+/** The key that observable libraries look for, which is `@@observable` where `Symbol.observable` is not defined. */
+const observableKey: typeof Symbol.observable = Symbol.observable ?? '@@observable' as any;
+
+/** Receives the values of an {@link Observable}. */
+export interface Observer<T> {
+    next?(value: T): void;
+    error?(error: unknown): void;
+    complete?(): void;
+}
+
+export interface Subscription {
+    unsubscribe(): void;
+}
+
+/** An observable of the shape that TC39 proposes and that libraries such as RxJS implement. */
+export interface Observable<T> {
+    subscribe(observer: Observer<T> | ((value: T) => void)): Subscription;
+}
+
+/** An object that converts itself to an {@link Observable}, as RxJS observables do. */
+export interface InteropObservable<T> {
+    [Symbol.observable](): Observable<T>;
+}
+
 type PipeArrayOrNever<T, TItem> = T extends Array<TItem> ? PipeArray<TItem> : never;
 
+/** Collects the pipes that are read while a {@link PipeComputed} evaluates. */
+let readPipes: Set<Pipe<any>> | undefined = undefined;
+
+/** Runs {fn}, recording the pipes it reads in {reads}, or recording nothing if {reads} is undefined. */
+function collectReads<V>(reads: Set<Pipe<any>> | undefined, fn: () => V): V {
+    const outerReads = readPipes;
+    readPipes = reads;
+    try {
+        return fn();
+    }
+    finally {
+        readPipes = outerReads;
+    }
+}
+
+/** Collects the pipes that are created while it is current, and disposes them together. */
+export class Scope {
+    private _disposables: { dispose(): void }[] = [];
+
+    /** Returns the scope that new pipes are being added to, if any. */
+    static get current(): Scope | undefined {
+        return currentScope;
+    }
+
+    /** Runs {fn} with this as the current scope, so that the pipes it creates are added to this scope. */
+    run<V>(fn: () => V): V {
+        return withScope(this, fn);
+    }
+
+    /** Adds something to dispose when this scope is disposed, such as a subscription or another scope. */
+    add(disposable: { dispose(): void }): void {
+        this._disposables.push(disposable);
+    }
+
+    /** Disposes everything in this scope, most recently created first so that dependants go before their sources. */
+    dispose(): void {
+        const disposables = this._disposables.reverse();
+        this._disposables = [];
+        disposables.forEach(x => x.dispose());
+    }
+}
+
+let currentScope: Scope | undefined = undefined;
+
+function withScope<V>(scope: Scope | undefined, fn: () => V): V {
+    const outerScope = currentScope;
+    currentScope = scope;
+    try {
+        return fn();
+    }
+    finally {
+        currentScope = outerScope;
+    }
+}
+
+/** Pipes that have been marked as changed but whose listeners have not been notified yet. */
+let markedPipes = new Set<Pipe<any>>();
+/** The marked pipes in the order that marking finished, which is reverse topological order. */
+let changedPipes: Pipe<any>[] = [];
+/** The marked pipes that changed themselves, rather than being marked because a source changed. */
+let notifiedPipes = new Set<Pipe<any>>();
+let flushing = false;
+/** Counts the notification passes that have started. */
+let flushCount = 0;
+let batchDepth = 0;
+/** Undoes the first write to each pipe in the innermost transaction, if any. */
+let transactionWrites: Map<Pipe<any>, () => void> | undefined = undefined;
+
+let nextPipeId = 1;
+let debugHook: PipeDebugHook | undefined = undefined;
+let errorHandler: ((error: unknown) => void) | undefined = undefined;
+
+/** Runs {fn} for a timer, event or promise, which has nowhere to throw to, so what it throws is reported instead. */
+function reported(fn: () => void): void {
+    try {
+        fn();
+    }
+    catch (err) {
+        Pipe.reportError(err);
+    }
+}
+
 export abstract class Pipe<T> implements Pipe<T> {
     private _listenerIndex = 0;
     private _listeners: (((source: Pipe<T>) => void) | undefined)[] = [];
+    private _dependantIndex = 0;
+    private _dependants: (Pipe<any> | undefined)[] = [];
+    /** The pipes this pipe observes, and how many times it observes each. */
+    private _sources = new Map<Pipe<any>, number>();
+    private _stale: boolean = false;
+    private _lifecycle: PipeLifecycle = 'active';
+    /** The number of listeners and observed dependants, which keep this pipe active. */
+    private _observerCount = 0;
+    private _disposeCallbacks: (() => void)[] = [];
+
+    private readonly _id = nextPipeId++;
+
+    /** An optional name that identifies this pipe when debugging. */
+    name?: string = undefined;
+
+    constructor() {
+        currentScope?.add(this);
+    }
+
+    /** Sets the debug name of this pipe, and returns it. */
+    named(name: string): this {
+        this.name = name;
+        return this;
+    }
+
+    toString(): string {
+        return this.name ? `${this.constructor.name} '${this.name}'` : this.constructor.name;
+    }
 
     /** Returns this pipe's value. */
     abstract get value(): T;
 
-    /** Notify listeners of. */
+    /** Returns the error that reading this pipe's value throws, or undefined if it does not throw. */
+    get error(): unknown {
+        try {
+            this.value;
+            return undefined;
+        }
+        catch (err) {
+            return err;
+        }
+    }
+
+    get lifecycle(): PipeLifecycle {
+        return this._lifecycle;
+    }
+
+    get isDisposed(): boolean {
+        return this._lifecycle === 'disposed';
+    }
+
+    /**
+     * Records that this pipe's value was read. Implementations of {value} should call this first,
+     * so that reading a disposed pipe throws a {@link PipeDisposedError}.
+     */
+    protected track(): void {
+        this.assertActive('read');
+        if (this._observerCount === 0 && this._sources.size > 0) {
+            // We are only told that our sources changed while we are observed, so anything cached may be out of date.
+            this.invalidate();
+        }
+        this._stale = false;
+        readPipes?.add(this);
+    }
+
+    /** Throws a {@link PipeDisposedError} if this pipe has been disposed. */
+    protected assertActive(action: string): void {
+        if (this._lifecycle === 'disposed') {
+            throw new PipeDisposedError(this, action);
+        }
+    }
+
+    /**
+     * Discards anything cached from this pipe's sources. Called when a source changes,
+     * before dependants are marked, so implementations must not read other pipes.
+     */
+    protected invalidate(): void {
+    }
+
+    /**
+     * Returns whether this pipe's value changed since its listeners were last notified, when one of its sources changed.
+     * Called during notification in topological order, so unlike {invalidate} it may read other pipes.
+     * Pipes that can tell that a change of their sources left them unchanged override it, so that their listeners and dependants are skipped.
+     */
+    protected hasChanged(): boolean {
+        return true;
+    }
+
+    /** Called when this pipe gains its first listener or observed dependant. Sources override it to start producing values. */
+    protected activate(): void {
+    }
+
+    /** Called when this pipe loses its last listener or observed dependant, or is disposed while it has some. */
+    protected deactivate(): void {
+    }
+
+    /** Whether this pipe has listeners, or dependants that are observed themselves. */
+    protected get isObserved(): boolean {
+        return this._observerCount > 0;
+    }
+
+    private addObserver(count: number = 1) {
+        if (this._lifecycle === 'disposed') {
+            return;
+        }
+        const first = this._observerCount === 0;
+        this._observerCount += count;
+        if (first) {
+            // Our sources have not been telling us about changes, so what we cached must be read again.
+            [...this._sources].forEach(([source, count]) => source.addObserver(count));
+            this.invalidate();
+            this.activate();
+        }
+    }
+
+    private removeObserver(count: number = 1) {
+        if (this._lifecycle === 'disposed') {
+            return;
+        }
+        this._observerCount -= count;
+        if (this._observerCount === 0) {
+            this.deactivate();
+            [...this._sources].forEach(([source, count]) => source.removeObserver(count));
+        }
+    }
+
+    /** Marks this pipe and its dependants as changed, and then notifies their listeners. */
     protected notify(): void {
-        for (const listener of this._listeners) {
-            // `listener` will be undefined if it was unsubscribed
-            if (typeof listener === 'function') {
-                listener(this);
-            }
+        this.assertActive('notify');
+        debugHook?.write?.(this);
+        notifiedPipes.add(this);
+        Pipe.mark(this);
+        Pipe.flush();
+    }
+
+    /**
+     * Remembers how to undo a write to this pipe, in case the current transaction fails.
+     * {save} is only called before the first write in a transaction, and returns a function that restores what it saved.
+     */
+    protected recordWrite(save: () => () => void): void {
+        if (transactionWrites && !transactionWrites.has(this)) {
+            transactionWrites.set(this, save());
+        }
+    }
+
+    /**
+     * Makes this pipe a dependant of {source}, so that it is marked whenever {source} changes. Returns a function that undoes it.
+     * Only dependants that are observed themselves observe their sources, so that pipes that nothing listens to do not keep sources active.
+     */
+    protected observe(source: Pipe<any>): () => void {
+        source.assertActive('observe');
+        const token = source._dependantIndex++;
+        source._dependants[token] = this;
+        this._sources.set(source, (this._sources.get(source) ?? 0) + 1);
+        if (this._observerCount > 0) {
+            source.addObserver();
         }
+
+        let observing = true;
+        return () => {
+            if (observing) {
+                observing = false;
+                if (source._dependants[token] !== undefined) {
+                    delete source._dependants[token];
+                    if (this._observerCount > 0) {
+                        source.removeObserver();
+                    }
+                }
+
+                const count = this._sources.get(source)! - 1;
+                if (count > 0) {
+                    this._sources.set(source, count);
+                }
+                else {
+                    this._sources.delete(source);
+                }
+            }
+        };
     }
 
     /** Subscribes listener to notifications from this object. */
     subscribe(listener: (source: Pipe<T>) => void): ListenerToken {
+        this.assertActive('subscribe to');
         if (this._listeners.includes(listener)) {
-            throw { message: 'The {listener} has already subscribed. Was this intentional?', listener };
+            throw new DuplicateSubscriptionError(listener);
         }
 
         const token = this._listenerIndex++;
         this._listeners[token] = listener;
+        this.addObserver();
         return token;
     }
 
+    /** Subscribes {listener} to be called with the error that reading this pipe's value throws, whenever it changes and throws. */
+    onError(listener: (error: unknown, source: Pipe<T>) => void): ListenerToken {
+        return this.subscribe(source => {
+            const error = source.error;
+            if (error !== undefined) {
+                listener(error, source);
+            }
+        });
+    }
+
+    /** The number of listeners currently subscribed to this pipe. */
+    get listenerCount(): number {
+        return this._listeners.filter(x => x !== undefined).length;
+    }
+
     /** Unsubscribes a notification listener. */
     unsubscribe(listenerToken: ListenerToken): void {
-        delete this._listeners[listenerToken];
+        if (this._listeners[listenerToken] !== undefined) {
+            delete this._listeners[listenerToken];
+            this.removeObserver();
+        }
+    }
+
+    /** Registers {callback} to be called when this pipe is disposed. Returns a function that unregisters it. */
+    onDispose(callback: () => void): () => void {
+        this.assertActive('register a dispose callback on');
+        this._disposeCallbacks.push(callback);
+        return () => {
+            const i = this._disposeCallbacks.indexOf(callback);
+            if (i >= 0) {
+                this._disposeCallbacks.splice(i, 1);
+            }
+        };
     }
 
-    /** Unsubscribes all notification listeners, and makes this object unusable. */
+    /**
+     * Unsubscribes all notification listeners, and makes this object unusable.
+     * Dependants are detached and their caches invalidated, so reading them afterwards throws a {@link PipeDisposedError},
+     * unless they are disposed too with {@link disposeDependants}. Disposing again does nothing.
+     */
     dispose(): void {
-        for (let i = 0; i < this._listenerIndex; i++) {
-            this.unsubscribe(i);
+        if (this._lifecycle === 'disposed') {
+            return;
+        }
+        this._lifecycle = 'disposed';
+
+        Pipe.invalidateDependants(this);
+        this._listeners = [];
+        this._dependants = [];
+        if (this._observerCount > 0) {
+            this._observerCount = 0;
+            this.deactivate();
+            [...this._sources].forEach(([source, count]) => source.removeObserver(count));
+        }
+
+        const callbacks = this._disposeCallbacks;
+        this._disposeCallbacks = [];
+        callbacks.forEach(x => x());
+    }
+
+    /** Disposes every pipe that depends on this one, and every pipe that depends on those. */
+    disposeDependants(): void {
+        const dependants = this._dependants.filter((x): x is Pipe<any> => x !== undefined);
+        for (const dependant of dependants) {
+            dependant.disposeDependants();
+            dependant.dispose();
         }
-        this._listeners = undefined!;
     }
 
     monitor(...monitoredPipes: ((value: T) => Pipe<any>)[]): Pipe<T> {
@@ -58,444 +411,2910 @@ export abstract class Pipe<T> implements Pipe<T> {
         return new PipeProjection<T, TOut>(this, projection);
     }
 
+    /** Returns a writable pipe of part of this value. Writing to it writes the copy of this value that {set} returns. */
+    lens<TOut>(this: WritablePipe<T>, get: (value: T) => TOut, set: (value: T, part: TOut) => T): WritablePipe<TOut> {
+        return new PipeLens(this, get, set);
+    }
+
+    /** Returns a writable pipe of property {key} of this value. Writing to it writes a copy of this value. */
+    lensKey<K extends keyof T>(this: WritablePipe<T>, key: K): WritablePipe<T[K]> {
+        return this.lens(x => x[key], (x, part) => ({ ...x, [key]: part }));
+    }
+
+    /** Returns a writable pipe of the item at {index} of this array. Writing to it writes a copy of this array. */
+    lensIndex<TItem>(this: WritablePipe<TItem[]>, index: number): WritablePipe<TItem> {
+        return this.lens(x => x[index], (x, item) => {
+            const copy = [...x];
+            copy[index] = item;
+            return copy;
+        });
+    }
+
+    /** Returns a pipe of this value, or of what {handler} returns if reading this value throws. */
+    catchError<TOut = T>(handler: (error: unknown) => TOut): Pipe<T | TOut> {
+        return new PipeCatch<T, TOut>(this, handler);
+    }
+
+    /**
+     * Projects each value through {projection}, aborting the previous call's {signal} when the value changes again.
+     * Unlike other derived pipes, it subscribes to this pipe until it is disposed, whether or not it is observed.
+     */
+    projectAsync<TOut>(projection: (value: T, signal: AbortSignal) => Promise<TOut>): AsyncPipe<TOut> {
+        return new PipeAsyncProjection<T, TOut>(this, projection);
+    }
+
+    /** Returns a pipe that only notifies when the value is not {equals} to the one it last notified about. */
+    distinctUntilChanged(equals: (a: T, b: T) => boolean = (a, b) => a === b): Pipe<T> {
+        return new PipeDistinct(this, equals);
+    }
+
+    /** Returns a pipe that takes on the value once it has stopped changing for {ms} milliseconds. */
+    debounce(ms: number, scheduler: Scheduler = timeoutScheduler): Pipe<T> {
+        return new PipeDebounce(this, ms, scheduler);
+    }
+
+    /** Returns a pipe that takes on the value at most once every {ms} milliseconds, including the last change. */
+    throttle(ms: number, scheduler: Scheduler = timeoutScheduler): Pipe<T> {
+        return new PipeThrottle(this, ms, scheduler);
+    }
+
+    /**
+     * Returns a pipe that accumulates each new value with {reducer}, starting from {seed}.
+     * While the pipe is not observed, only the values that it is read at are accumulated.
+     */
+    scan<TAcc>(reducer: (accumulator: TAcc, value: T) => TAcc, seed: TAcc): Pipe<TAcc> {
+        return new PipeScan(this, reducer, seed);
+    }
+
+    /** Returns a pipe that takes on the value whenever the value of {sampler} changes. */
+    sampleOn(sampler: Pipe<any>): Pipe<T> {
+        return new PipeSample(this, sampler);
+    }
+
+    /**
+     * Returns a pipe of the value of the pipe that {projection} returns for the current value.
+     * The pipes that {projection} creates belong to the returned pipe, and are disposed when it switches away from them or is disposed.
+     */
+    switchMap<TOut>(projection: (value: T) => Pipe<TOut>): Pipe<TOut>;
+    switchMap<TOut>(this: Pipe<Pipe<TOut>>): Pipe<TOut>;
+    switchMap<TOut>(projection: (value: T) => Pipe<TOut> = value => value as any): Pipe<TOut> {
+        return new PipeSwitch(this, projection);
+    }
+
+    /** Returns a pipe of the current value and the one before it. */
+    withPrevious(): Pipe<[current: T, previous: T]> {
+        return new PipeWithPrevious(this);
+    }
+
     // PipeArray members
 
     asArray<TItem>(this: PipeArrayOrNever<T, TItem>): PipeArray<TItem> {
         if (!Array.isArray(this.value)) {
-            throw 'The value must be an array.';
+            throw new NotAnArrayError(this.value);
         }
         return this;
     }
 
     group<TItem, TKey>(this: PipeArrayOrNever<T, TItem>, expression: (value: TItem) => Pipe<TKey>): PipeArrayGroup<TItem, TKey> {
         if (!Array.isArray(this.value)) {
-            throw 'The value must be an array.';
+            throw new NotAnArrayError(this.value);
         }
         return new PipeArrayGroup(this, expression);
     }
 
     map<TItemIn, TItemOut>(this: PipeArrayOrNever<T, TItemIn>, projection: (value: TItemIn) => TItemOut): PipeArray<TItemOut> {
         if (!Array.isArray(this.value)) {
-            throw 'The value must be an array.';
+            throw new NotAnArrayError(this.value);
         }
         return new PipeArrayMap(this, projection) as PipeArray<TItemOut>;
     }
 
     filter<TItem>(this: PipeArrayOrNever<T, TItem>, predicate: (value: TItem) => Pipe<boolean>): PipeArray<TItem> {
         if (!Array.isArray(this.value)) {
-            throw 'The value must be an array.';
+            throw new NotAnArrayError(this.value);
         }
         return new PipeArrayFilter(this, predicate) as PipeArray<TItem>;
     }
 
-    first<TItem>(this: PipeArrayOrNever<T, TItem>): Pipe<TItem> {
+    /** Returns the first item, or undefined if there are none. */
+    first<TItem>(this: PipeArrayOrNever<T, TItem>): Pipe<TItem | undefined> {
         if (!Array.isArray(this.value)) {
-            throw 'The value must be an array.';
+            throw new NotAnArrayError(this.value);
         }
-        return new PipeArrayFirst(this) as Pipe<TItem>;
+        return new PipeArrayElement<TItem, TItem | undefined>(this, toPipe(0), items => items[0]);
+    }
+
+    /** Returns the first item, or {fallback} if there are none. */
+    firstOrDefault<TItem>(this: PipeArrayOrNever<T, TItem>, fallback: TItem): Pipe<TItem> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayElement(this, toPipe(0), items => items.length > 0 ? items[0] : fallback);
+    }
+
+    /** Returns the last item, or undefined if there are none. */
+    last<TItem>(this: PipeArrayOrNever<T, TItem>): Pipe<TItem | undefined> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayElement<TItem, TItem | undefined>(this, toPipe(0), items => items[items.length - 1]);
+    }
+
+    /** Returns the item at {index}, counting back from the end if it is negative, or undefined if there is none. */
+    at<TItem>(this: PipeArrayOrNever<T, TItem>, index: number | Pipe<number>): Pipe<TItem | undefined> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayElement(this, toPipe(index), (items, i) => items.at(i));
+    }
+
+    /** Returns the only item. Reading the value throws if there are no items or more than one. */
+    single<TItem>(this: PipeArrayOrNever<T, TItem>): Pipe<TItem> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayElement(this, toPipe(0), items => {
+            if (items.length !== 1) {
+                throw new SingleItemError(items.length);
+            }
+            return items[0];
+        });
+    }
+
+    sortBy<TItem, TKey>(this: PipeArrayOrNever<T, TItem>, keySelector: (value: TItem) => Pipe<TKey>, compare: (a: TKey, b: TKey) => number = compareKeys): PipeArray<TItem> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArraySort(this, keySelector, compare) as PipeArray<TItem>;
+    }
+
+    /** Keeps the first item of each key. */
+    distinctBy<TItem, TKey>(this: PipeArrayOrNever<T, TItem>, keySelector: (value: TItem) => Pipe<TKey>): PipeArray<TItem> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayDistinct(this, keySelector) as PipeArray<TItem>;
+    }
+
+    /** Returns the items from {start}, {count} of them or all the rest if {count} is undefined. */
+    slice<TItem>(this: PipeArrayOrNever<T, TItem>, start: number | Pipe<number>, count?: number | Pipe<number>): PipeArray<TItem> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArraySlice(this, toPipe(start), count === undefined ? undefined : toPipe(count)) as PipeArray<TItem>;
+    }
+
+    reduce<TItem, TAcc>(this: PipeArrayOrNever<T, TItem>, reducer: (accumulator: TAcc, item: TItem) => TAcc, seed: TAcc): Pipe<TAcc> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return this.project(items => items.reduce(reducer, seed));
+    }
+
+    find<TItem>(this: PipeArrayOrNever<T, TItem>, predicate: (value: TItem) => Pipe<boolean>): Pipe<TItem | undefined> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayAggregate(this, predicate, children => children.find(x => x.pipe.value)?.item);
+    }
+
+    some<TItem>(this: PipeArrayOrNever<T, TItem>, predicate: (value: TItem) => Pipe<boolean>): Pipe<boolean> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayAggregate(this, predicate, children => children.some(x => x.pipe.value));
+    }
+
+    every<TItem>(this: PipeArrayOrNever<T, TItem>, predicate: (value: TItem) => Pipe<boolean>): Pipe<boolean> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayAggregate(this, predicate, children => children.every(x => x.pipe.value));
+    }
+
+    /** Counts the items that match {predicate}, or all of them if there is no predicate. */
+    count<TItem>(this: PipeArrayOrNever<T, TItem>, predicate?: (value: TItem) => Pipe<boolean>): Pipe<number> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return predicate
+            ? new PipeArrayAggregate(this, predicate, children => children.filter(x => x.pipe.value).length)
+            : this.project(items => items.length);
+    }
+
+    /** Sums the values that {selector} selects from each item, or the items themselves if there is no selector. */
+    sum<TItem>(this: PipeArrayOrNever<T, TItem>, selector: (value: TItem) => Pipe<number>): Pipe<number>;
+    sum(this: PipeArray<number>): Pipe<number>;
+    sum<TItem>(this: PipeArrayOrNever<T, TItem>, selector?: (value: TItem) => Pipe<number>): Pipe<number> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return selector
+            ? new PipeArrayAggregate(this, selector, children => children.reduce((sum, x) => sum + x.pipe.value, 0))
+            : this.project(items => (items as any[]).reduce((sum, x) => sum + x, 0));
+    }
+
+    /** Pairs each item with every item of {other} that has the same key, and projects each pair with {result}. */
+    join<TItem, TOther, TKey, TOut>(
+        this: PipeArrayOrNever<T, TItem>,
+        other: PipeArray<TOther>,
+        key: (value: TItem) => Pipe<TKey>,
+        otherKey: (value: TOther) => Pipe<TKey>,
+        result: (item: TItem, other: TOther) => TOut): PipeArray<TOut> {
+        if (!Array.isArray(this.value)) {
+            throw new NotAnArrayError(this.value);
+        }
+        return new PipeArrayJoin(this, other, key, otherKey, result) as PipeArray<TOut>;
     }
 
     [Symbol.iterator]<TItem>(this: PipeArrayOrNever<T, TItem>): IterableIterator<TItem> {
         if (!Array.isArray(this.value)) {
-            throw 'The value must be an array.';
+            throw new NotAnArrayError(this.value);
         }
         return this.value[Symbol.iterator]();
     }
 
+    /**
+     * Yields this pipe's value, and then its value after each change, for `for await` loops.
+     * A loop that is busy when the value changes more than once only sees the latest value.
+     * The loop ends when this pipe is disposed, after the value it last changed to, and throws if reading the value throws.
+     */
+    async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        if (this.isDisposed) {
+            return;
+        }
+
+        // Values are read when they change, because the pipe cannot be read once it is disposed.
+        const read = (): { value: T } | { error: unknown } => {
+            try {
+                return { value: collectReads(undefined, () => this.value) };
+            }
+            catch (error) {
+                return { error };
+            }
+        };
+        let next: { value: T } | { error: unknown } | undefined = read();
+        let wake: (() => void) | undefined = undefined;
+        const token = this.subscribe(() => {
+            next = read();
+            wake?.();
+        });
+        const stopWaiting = this.onDispose(() => wake?.());
+        try {
+            while (next || !this.isDisposed) {
+                if (next) {
+                    const current = next;
+                    next = undefined;
+                    if ('error' in current) {
+                        throw current.error;
+                    }
+                    yield current.value;
+                }
+                else {
+                    await new Promise<void>(resolve => wake = resolve);
+                    wake = undefined;
+                }
+            }
+        }
+        finally {
+            this.unsubscribe(token);
+            stopWaiting();
+        }
+    }
+
+    /** Converts this pipe to an observable for libraries such as RxJS, as {@link toObservable} does. */
+    [observableKey](): Observable<T> {
+        return this.toObservable();
+    }
+
+    /**
+     * Returns an observable that emits this pipe's value when subscribed to, and again whenever it changes.
+     * If reading the value throws, observers are sent the error and unsubscribed. When this pipe is disposed, they are completed.
+     */
+    toObservable(): Observable<T> {
+        return new PipeObservable(this);
+    }
+
+    // Propagation
+
+    /** Invalidates {pipe} and everything downstream of it, without notifying any listeners yet. */
+    private static mark(pipe: Pipe<any>): void {
+        if (markedPipes.has(pipe)) {
+            return;
+        }
+        markedPipes.add(pipe);
+
+        pipe._stale = true;
+        pipe.invalidate();
+        for (const dependant of pipe._dependants) {
+            // `dependant` will be undefined if it stopped observing, and is invalidated when it is read if it is not observed
+            if (dependant?._observerCount) {
+                Pipe.mark(dependant);
+            }
+        }
+
+        changedPipes.push(pipe);
+    }
+
+    /** Invalidates everything downstream of {pipe}, without notifying any listeners. */
+    private static invalidateDependants(pipe: Pipe<any>): void {
+        for (const dependant of pipe._dependants) {
+            if (dependant) {
+                dependant.invalidate();
+                Pipe.invalidateDependants(dependant);
+            }
+        }
+    }
+
+    private static hasChangedSource(pipe: Pipe<any>, changed: Set<Pipe<any>>): boolean {
+        for (const source of pipe._sources.keys()) {
+            if (changed.has(source)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** Notifies the listeners of marked pipes in topological order, once each. */
+    private static flush(): void {
+        if (flushing || batchDepth > 0) {
+            return;
+        }
+
+        const errors: unknown[] = [];
+        flushing = true;
+        flushCount++;
+        try {
+            // Listeners may change states, in which case we go around again.
+            while (changedPipes.length > 0) {
+                const wave = changedPipes.reverse();
+                const notified = notifiedPipes;
+                changedPipes = [];
+                markedPipes = new Set();
+                notifiedPipes = new Set();
+
+                // Pipes that turn out not to have changed are skipped, along with what depends only on them.
+                const changed = new Set<Pipe<any>>();
+                for (const pipe of wave) {
+                    if (!notified.has(pipe) && !(Pipe.hasChangedSource(pipe, changed) && pipe.hasChanged())) {
+                        continue;
+                    }
+                    changed.add(pipe);
+
+                    const start = debugHook?.notify ? performance.now() : 0;
+                    for (const listener of pipe._listeners) {
+                        // `listener` will be undefined if it was unsubscribed
+                        if (pipe.isDisposed) {
+                            break;
+                        }
+                        else if (typeof listener === 'function') {
+                            // One bad listener must not keep the others from being notified.
+                            try {
+                                listener(pipe);
+                            }
+                            catch (err) {
+                                errors.push(err);
+                            }
+                        }
+                    }
+                    debugHook?.notify?.(pipe, pipe.listenerCount, performance.now() - start);
+                }
+            }
+        }
+        finally {
+            flushing = false;
+        }
+
+        if (errors.length > 0) {
+            throw new ListenerError(errors);
+        }
+    }
+
     // Statics
 
     static bool(value: boolean) {
         return value ? truePipe : falsePipe;
     }
-}
 
-export class Fixed<T> extends Pipe<T> {
-    private _value: T;
+    /** Creates a pipe of {expression} that depends on whichever pipes it read the last time it was evaluated. */
+    static computed<T>(expression: () => T): Pipe<T> {
+        return new PipeComputed(expression);
+    }
 
-    constructor(value: T) {
-        super();
-        this._value = value;
+    /** Runs {fn}, deferring notifications until the outermost batch finishes. */
+    static batch<V>(fn: () => V): V {
+        batchDepth++;
+        try {
+            return fn();
+        }
+        finally {
+            batchDepth--;
+            Pipe.flush();
+        }
     }
 
-    get value() {
-        return this._value;
+    /**
+     * Counts the notification passes so far. Listeners notified during the same pass were notified
+     * because of the same write or batch, or because of writes made by other listeners during that pass.
+     */
+    static get flushCount(): number {
+        return flushCount;
     }
-}
 
-const truePipe: Fixed<boolean> = new Fixed(true);
-const falsePipe: Fixed<boolean> = new Fixed(false);
+    /** Runs {fn} in a batch, and if it throws restores the states it wrote to their previous values. Listeners are still notified of restored states. */
+    static transaction<V>(fn: () => V): V {
+        return Pipe.batch(() => {
+            const outerWrites = transactionWrites;
+            const writes = new Map<Pipe<any>, () => void>();
+            transactionWrites = writes;
+            try {
+                return fn();
+            }
+            catch (err) {
+                writes.forEach(rollback => rollback());
+                writes.clear();
+                throw err;
+            }
+            finally {
+                transactionWrites = outerWrites;
+
+                // Committed writes can still be undone if the outer transaction fails.
+                writes.forEach((rollback, pipe) => {
+                    if (outerWrites && !outerWrites.has(pipe)) {
+                        outerWrites.set(pipe, rollback);
+                    }
+                });
+            }
+        });
+    }
 
-export class State<T> extends Pipe<T> {
-    private _oldValue: T;
-    private _value: T;
+    /**
+     * Creates a pipe of the latest value of {observable}, which is {initial} until it emits.
+     * If {observable} fails, reading the pipe throws the error. If it completes, the pipe keeps its last value,
+     * so `for await` loops over the pipe keep waiting, unless {disposeOnComplete} is true, in which case the pipe is disposed,
+     * which ends the loops and makes reading the pipe throw. Disposing the pipe unsubscribes from {observable}.
+     */
+    static fromObservable<T>(
+        observable: Observable<T> | InteropObservable<T>,
+        initial: T,
+        options?: { disposeOnComplete?: boolean }
+    ): Pipe<T> {
+        return new PipeFromObservable(observable, initial, options?.disposeOnComplete ?? false);
+    }
 
-    constructor(value: T) {
-        super();
-        this._oldValue = value;
-        this._value = value;
+    /**
+     * Creates a pipe of the latest event of {type} that {target} dispatches, which is undefined until the first one.
+     * The listener is only added while the pipe has listeners or dependants.
+     */
+    static fromEvent<TEvent extends Event = Event>(target: EventTarget, type: string, options?: AddEventListenerOptions): Pipe<TEvent | undefined> {
+        return new PipeEvent<TEvent>(target, type, options);
     }
 
-    get oldValue() {
-        return this._oldValue;
+    /** Creates a pipe that counts the intervals of {ms} milliseconds that pass while it has listeners or dependants. */
+    static interval(ms: number, scheduler: Scheduler = timeoutScheduler): Pipe<number> {
+        return new PipeInterval(ms, scheduler);
     }
 
-    get value() {
-        return this._value;
+    /** Creates a pipe of the time of the latest animation frame, which only requests frames while it has listeners or dependants. */
+    static animationFrames(): Pipe<number> {
+        return new PipeAnimationFrames();
     }
-    set value(value: T) {
+
+    /**
+     * Creates a pipe of what {promise} resolves to. If {promise} is a function, it is only called once the pipe
+     * has listeners or dependants, and its signal is aborted if they all unsubscribe before it resolves.
+     */
+    static fromPromise<T>(promise: Promise<T> | ((signal: AbortSignal) => Promise<T>)): AsyncPipe<T> {
+        return new PipeFromPromise(promise);
+    }
+
+    /**
+     * Creates a pipe of the latest value of {iterable}, which is {initial} until it yields.
+     * Iteration starts when the pipe gains listeners or dependants, and is stopped with `return()` when it loses them.
+     * If {iterable} throws, reading the pipe throws the error. If it ends, the pipe keeps its last value.
+     */
+    static fromAsyncIterable<T>(iterable: AsyncIterable<T>, initial: T): Pipe<T> {
+        return new PipeFromAsyncIterable(iterable, initial);
+    }
+
+    /**
+     * Creates a pipe of whether {query} matches, which only listens for changes while it has listeners or dependants.
+     * Where there is no `matchMedia`, such as on the server, the query never matches.
+     */
+    static fromMediaQuery(query: string): Pipe<boolean> {
+        return new PipeMediaQuery(query);
+    }
+
+    /** Runs {fn} in a new scope, which is disposed along with the current scope if there is one. */
+    static scope(fn: (scope: Scope) => void): Scope {
+        const scope = new Scope();
+        currentScope?.add(scope);
+        scope.run(() => fn(scope));
+        return scope;
+    }
+
+    /** Runs {fn} without adding the pipes it creates to the current scope, for pipes that another pipe owns and disposes. */
+    static unscoped<V>(fn: () => V): V {
+        return withScope(undefined, fn);
+    }
+
+    /** Returns the graph of pipes that {pipe} observes, directly or indirectly, and that observe it. */
+    static inspect(pipe: Pipe<any>): PipeGraph {
+        const nodes = new Map<Pipe<any>, PipeNode>();
+        const edges: PipeEdge[] = [];
+        const visit = (p: Pipe<any>) => {
+            if (!nodes.has(p)) {
+                nodes.set(p, {
+                    id: p._id,
+                    name: p.name,
+                    type: p.constructor.name,
+                    lifecycle: p._lifecycle,
+                    listenerCount: p.listenerCount,
+                    stale: p._stale,
+                });
+            }
+        };
+
+        visit(pipe);
+        const upstream = [pipe];
+        for (let p; p = upstream.pop();) {
+            for (const source of p._sources.keys()) {
+                edges.push({ from: source._id, to: p._id });
+                if (!nodes.has(source)) {
+                    visit(source);
+                    upstream.push(source);
+                }
+            }
+        }
+
+        const downstream = [pipe];
+        for (let p; p = downstream.pop();) {
+            for (const dependant of new Set(p._dependants)) {
+                if (dependant) {
+                    edges.push({ from: p._id, to: dependant._id });
+                    if (!nodes.has(dependant)) {
+                        visit(dependant);
+                        downstream.push(dependant);
+                    }
+                }
+            }
+        }
+
+        return new PipeGraph(pipe._id, [...nodes.values()], edges);
+    }
+
+    /** Installs {hook} to receive every write and notification, or removes the current hook if it is undefined. */
+    static debug(hook: PipeDebugHook | undefined): void {
+        debugHook = hook;
+    }
+
+    /**
+     * Installs {handler} to receive the errors that nothing can catch, such as those that listeners throw when a timer, event
+     * or promise changes a pipe, or removes the current handler if it is undefined. Without a handler, these errors are passed
+     * to `reportError` where there is one, and logged otherwise.
+     */
+    static onUnhandledError(handler: ((error: unknown) => void) | undefined): void {
+        errorHandler = handler;
+    }
+
+    /** Reports {error}, which nothing can catch, to the handler installed with {@link Pipe.onUnhandledError}. */
+    static reportError(error: unknown): void {
+        if (errorHandler) {
+            errorHandler(error);
+        }
+        else if (typeof reportError === 'function') {
+            reportError(error);
+        }
+        else {
+            console.error(error);
+        }
+    }
+
+    /** Runs {fn} without recording the pipes it reads as dependencies of the computed pipe being evaluated. */
+    static untracked<V>(fn: () => V): V {
+        return collectReads(undefined, fn);
+    }
+}
+
+export class Fixed<T> extends Pipe<T> {
+    private _value: T;
+
+    constructor(value: T) {
+        super();
+        this._value = value;
+    }
+
+    get value() {
+        return this._value;
+    }
+}
+
+const truePipe: Fixed<boolean> = new Fixed(true);
+const falsePipe: Fixed<boolean> = new Fixed(false);
+
+function toPipe<T>(value: T | Pipe<T>): Pipe<T> {
+    return value instanceof Pipe ? value : new Fixed(value);
+}
+
+export class State<T> extends Pipe<T> {
+    private _oldValue: T;
+    private _value: T;
+
+    constructor(value: T) {
+        super();
+        this._oldValue = value;
+        this._value = value;
+    }
+
+    get oldValue() {
+        return this._oldValue;
+    }
+
+    get value() {
+        this.track();
+        return this._value;
+    }
+    set value(value: T) {
+        this.assertActive('write to');
         if (this._value !== value) {
+            this.recordWrite(() => {
+                const { _value, _oldValue } = this;
+                return () => {
+                    this._value = _value;
+                    this._oldValue = _oldValue;
+                    this.notify();
+                };
+            });
+
             this._oldValue = this._value;
             this._value = value;
             this.notify();
         }
     }
-}
+}
+
+/** A pipe whose value can be written, such as a {@link State} or a lens of one. */
+export interface WritablePipe<T> extends Pipe<T> {
+    value: T;
+}
+
+export type ArrayChange<TItem> =
+    | { type: 'insert', index: number, item: TItem }
+    | { type: 'remove', index: number, item: TItem }
+    | { type: 'move', from: number, to: number, item: TItem }
+    | { type: 'update', index: number, item: TItem, oldItem: TItem };
+
+export interface PipeArray<TItem> extends Pipe<TItem[]> {
+    /** Identifies the current value, for use with {changesSince}. Read {value} first. */
+    readonly version?: number;
+
+    /** Returns the changes made since {version} was current, or undefined if they are no longer known. */
+    changesSince?(version: number): ArrayChange<TItem>[] | undefined;
+}
+
+/** Records the changes made to an array so that {@link PipeArray} consumers can catch up incrementally. */
+export class ArrayChangeLog<TItem> {
+    private _version = 0;
+    private _firstVersion = 0;
+    private _changes: ArrayChange<TItem>[] = [];
+
+    get version() {
+        return this._version;
+    }
+
+    /** Records {changes}, which were made to an array that now has {length} items. */
+    record(changes: ArrayChange<TItem>[], length: number): void {
+        for (const change of changes) {
+            this._changes.push(change);
+            this._version++;
+        }
+
+        // Once the log is much longer than the array it is cheaper for consumers to diff the whole array.
+        const limit = Math.max(length, 16);
+        if (this._changes.length > 2 * limit) {
+            const excess = this._changes.length - limit;
+            this._changes.splice(0, excess);
+            this._firstVersion += excess;
+        }
+    }
+
+    /** Forgets every recorded change, for when the array was replaced wholesale. */
+    reset(): void {
+        this._version++;
+        this._firstVersion = this._version;
+        this._changes = [];
+    }
+
+    changesSince(version: number): ArrayChange<TItem>[] | undefined {
+        if (version < this._firstVersion || version > this._version) {
+            return undefined;
+        }
+        return this._changes.slice(version - this._firstVersion);
+    }
+}
+
+/** Returns changes that turn {oldArray} into {newArray}, comparing items by identity. */
+export function diffArrays<TItem>(oldArray: readonly TItem[], newArray: readonly TItem[]): ArrayChange<TItem>[] {
+    const changes: ArrayChange<TItem>[] = [];
+
+    const needed = new Map<TItem, number>();
+    for (const item of newArray) {
+        needed.set(item, (needed.get(item) ?? 0) + 1);
+    }
+
+    // Remove items that are no longer needed, back to front so that indexes stay valid.
+    const kept: TItem[] = [];
+    for (let i = oldArray.length - 1; i >= 0; i--) {
+        const item = oldArray[i];
+        const count = needed.get(item) ?? 0;
+        if (count > 0) {
+            needed.set(item, count - 1);
+            kept.push(item);
+        }
+        else {
+            changes.push({ type: 'remove', index: i, item });
+        }
+    }
+    kept.reverse();
+
+    // `needed` now counts the items to insert, anything else out of place is moved.
+    for (let i = 0; i < newArray.length; i++) {
+        const item = newArray[i];
+        if (kept[i] === item) {
+            continue;
+        }
+
+        const count = needed.get(item) ?? 0;
+        if (count > 0) {
+            needed.set(item, count - 1);
+            kept.splice(i, 0, item);
+            changes.push({ type: 'insert', index: i, item });
+        }
+        else {
+            const from = kept.indexOf(item, i + 1);
+            kept.splice(from, 1);
+            kept.splice(i, 0, item);
+            changes.push({ type: 'move', from, to: i, item });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Applies {changes} to {array}, using {create} to make the element for each new item
+ * and {destroy} to release each element that is removed.
+ */
+export function applyChanges<TItem, TElement>(
+    array: TElement[],
+    changes: readonly ArrayChange<TItem>[],
+    create: (item: TItem) => TElement,
+    destroy?: (element: TElement) => void) {
+
+    for (const change of changes) {
+        switch (change.type) {
+            case 'insert':
+                array.splice(change.index, 0, create(change.item));
+                break;
+            case 'remove':
+                const [removed] = array.splice(change.index, 1);
+                destroy?.(removed);
+                break;
+            case 'move':
+                array.splice(change.to, 0, array.splice(change.from, 1)[0]);
+                break;
+            case 'update':
+                destroy?.(array[change.index]);
+                array[change.index] = create(change.item);
+                break;
+        }
+    }
+}
+
+/** Keeps a copy of a parent array pipe's items, and reports what changed each time it is brought up to date. */
+class ArrayMirror<TItem> {
+    private _parent: PipeArray<TItem>;
+    private _version?: number = undefined;
+    readonly items: TItem[] = [];
+
+    constructor(
+        parent: Pipe<TItem[]>
+    ) {
+        this._parent = parent;
+    }
+
+    /** Brings {items} up to date with the parent, and returns the changes that were applied. */
+    sync(): ArrayChange<TItem>[] {
+        const value = this._parent.value;
+        const changes = (this._version !== undefined ? this._parent.changesSince?.(this._version) : undefined)
+            ?? diffArrays(this.items, value);
+        this._version = this._parent.version;
+
+        applyChanges(this.items, changes, item => item);
+        return changes;
+    }
+
+    /** Forgets the items, so that the next sync reports every item as inserted. */
+    reset(): void {
+        this.items.length = 0;
+        this._version = undefined;
+    }
+}
+
+/** An item of a parent array, and the pipe that was selected from it. */
+interface ItemPipe<TItem, TValue> {
+    item: TItem;
+    pipe: Pipe<TValue>;
+    unsubscribe: () => void;
+}
+
+/** Keeps a pipe selected from each item of a parent array, observed by its owner, in step with the parent. */
+class ItemPipes<TItem, TValue> {
+    private _parent: ArrayMirror<TItem>;
+    private _selector: (value: TItem) => Pipe<TValue>;
+    private _observe: (pipe: Pipe<any>) => () => void;
+    children: ItemPipe<TItem, TValue>[] = [];
+
+    constructor(
+        parent: Pipe<TItem[]>,
+        selector: (value: TItem) => Pipe<TValue>,
+        observe: (pipe: Pipe<any>) => () => void
+    ) {
+        this._parent = new ArrayMirror(parent);
+        this._selector = selector;
+        this._observe = observe;
+        this.sync();
+    }
+
+    /**
+     * Selects and observes the pipes of items added to the parent, and stops observing those of removed items.
+     * Pipes that the selector created for a removed item are disposed.
+     */
+    sync(): ItemPipe<TItem, TValue>[] {
+        try {
+            collectReads(undefined, () => {
+                applyChanges(this.children, this._parent.sync(), item => {
+                    const scope = new Scope();
+                    const pipe = scope.run(() => this._selector(item));
+                    const unobserve = this._observe(pipe);
+                    return {
+                        item,
+                        pipe,
+                        unsubscribe: () => {
+                            unobserve();
+                            scope.dispose();
+                        },
+                    };
+                }, x => x.unsubscribe());
+            });
+        }
+        catch (err) {
+            // The selector threw part way through, so start again from scratch next time.
+            this.children.forEach(x => x.unsubscribe());
+            this.children = [];
+            this._parent.reset();
+            throw err;
+        }
+        return this.children;
+    }
+
+    dispose(): void {
+        this.children.forEach(x => x.unsubscribe());
+        this.children = undefined!;
+        this._parent = undefined!;
+        this._selector = undefined!;
+        this._observe = undefined!;
+    }
+}
+
+export class PipeArrayFilter<TItem> extends Pipe<TItem[]> implements PipeArray<TItem> {
+    private _cached: boolean = false;
+    private _cache?: TItem[] = undefined;
+    private _unsubscribeParent: () => void;
+    private _children: ItemPipes<TItem, boolean>;
+
+    constructor(
+        parent: PipeArray<TItem>,
+        predicate: (value: TItem) => Pipe<boolean>
+    ) {
+        super();
+        this._unsubscribeParent = this.observe(parent);
+        this._children = new ItemPipes(parent, predicate, pipe => this.observe(pipe));
+    }
+
+    get value() {
+        this.track();
+        if (!this._cached) {
+            this._cache = collectReads(undefined, () => this._children.sync()
+                .filter(x => x.pipe.value)
+                .map(x => x.item));
+            this._cached = true;
+        }
+
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        // The parent or an item changed, so the cache and our
+        // item subscriptions will be brought up to date when next read.
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._children.dispose();
+        this._children = undefined!;
+        this._cache = undefined;
+    }
+}
+
+/** Selects one element of an array, and only notifies when a different element is selected. */
+export class PipeArrayElement<TItem, TOut> extends Pipe<TOut> implements Pipe<TOut> {
+    private _value?: TOut = undefined;
+    private _error?: unknown = undefined;
+    private _dirty: boolean = false;
+    private _changed: boolean = false;
+    private _parent: Pipe<TItem[]>;
+    private _index: Pipe<number>;
+    private _select: (items: TItem[], index: number) => TOut;
+    private _unsubscribePipes: (() => void)[];
+
+    constructor(
+        parent: PipeArray<TItem>,
+        index: Pipe<number>,
+        select: (items: TItem[], index: number) => TOut
+    ) {
+        super();
+        this._parent = parent;
+        this._index = index;
+        this._select = select;
+        collectReads(undefined, () => this.select());
+
+        this._unsubscribePipes = [this.observe(this._parent), this.observe(this._index)];
+    }
+
+    get value(): TOut {
+        this.track();
+        this.refresh();
+        if (this._error !== undefined) {
+            throw this._error;
+        }
+        return this._value!;
+    }
+
+    protected invalidate() {
+        // Comparing means reading the parent, which has to wait until we are read or asked whether we changed.
+        this._dirty = true;
+    }
+
+    protected hasChanged(): boolean {
+        this.refresh();
+        const changed = this._changed;
+        this._changed = false;
+        return changed;
+    }
+
+    protected activate() {
+        // What changed before we were observed is not a change to our new observers.
+        this.refresh();
+        this._changed = false;
+    }
+
+    private refresh() {
+        if (this._dirty) {
+            this._dirty = false;
+            if (collectReads(undefined, () => this.select())) {
+                this._changed = this.isObserved;
+            }
+        }
+    }
+
+    /** Selects the element, and returns true if it is not the one that was selected before. */
+    private select(): boolean {
+        let value: TOut | undefined = undefined;
+        let error: unknown = undefined;
+        try {
+            value = this._select(this._parent.value, this._index.value);
+        }
+        catch (err) {
+            error = err;
+        }
+
+        const changed = value !== this._value || error !== this._error;
+        this._value = value;
+        this._error = error;
+        return changed;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribePipes.forEach(x => x());
+        this._unsubscribePipes = undefined!;
+        this._value = undefined;
+        this._parent = undefined!;
+        this._index = undefined!;
+        this._select = undefined!;
+    }
+}
+
+export class PipeArrayGroup<TItem, TKey> extends Pipe<[TKey, TItem[]][]> implements PipeArray<[TKey, TItem[]]> {
+    private _cached: boolean = false;
+    private _cache?: [TKey, TItem[]][];
+    private _unsubscribeParent: () => void;
+    private _children: ItemPipes<TItem, TKey>;
+
+    constructor(
+        parent: PipeArray<TItem>,
+        expression: (value: TItem) => Pipe<TKey>
+    ) {
+        super();
+        this._unsubscribeParent = this.observe(parent);
+        this._children = new ItemPipes(parent, expression, pipe => this.observe(pipe));
+    }
+
+    get value() {
+        this.track();
+        if (!this._cached) {
+            const cache: [TKey, TItem[]][] = [];
+            const groups = collectReads(undefined, () => groupBy(this._children.sync(), x => x.pipe.value));
+            for (const [key, children] of groups) {
+                cache.push([key, children.map(x => x.item)]);
+            }
+            this._cache = cache;
+            this._cached = true;
+        }
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        // The parent or an item changed, so the cache and our
+        // item subscriptions will be brought up to date when next read.
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._children.dispose();
+        this._children = undefined!;
+        this._cache = undefined;
+    }
+}
+
+function groupBy<TItem, TKey>(
+    array: TItem[],
+    keyGetter: (item: TItem) => TKey): Map<TKey, TItem[]> {
+
+    const map = new Map<TKey, TItem[]>();
+    array.forEach((item) => {
+        const key = keyGetter(item);
+        const collection = map.get(key);
+        if (!collection) map.set(key, [item]);
+        else collection.push(item);
+    });
+    return map;
+}
+
+export class PipeArrayMap<TItemIn, TItemOut> extends Pipe<TItemOut[]> implements PipeArray<TItemOut> {
+    private _cached: boolean = false;
+    private _cache?: TItemOut[] = undefined;
+    private _outputs: TItemOut[] = [];
+    private _changes = new ArrayChangeLog<TItemOut>();
+    private _parent: ArrayMirror<TItemIn>;
+    private _projection: (value: TItemIn) => TItemOut;
+    private _unsubscribeParent: () => void;
+
+    constructor(
+        parent: Pipe<TItemIn[]>,
+        projection: (item: TItemIn) => TItemOut
+    ) {
+        super();
+        this._parent = new ArrayMirror(parent);
+        this._projection = projection;
+
+        this._unsubscribeParent = this.observe(parent);
+    }
+
+    get value() {
+        this.track();
+        this.refresh();
+        return this._cache!;
+    }
+
+    get version() {
+        this.refresh();
+        return this._changes.version;
+    }
+
+    changesSince(version: number) {
+        this.refresh();
+        return this._changes.changesSince(version);
+    }
+
+    private refresh() {
+        if (!this._cached) {
+            try {
+                this.applyParentChanges();
+            }
+            catch (err) {
+                // The projection threw part way through, so start again from scratch next time.
+                this._outputs = [];
+                this._parent.reset();
+                this._changes.reset();
+                throw err;
+            }
+            this._cache = [...this._outputs];
+            this._cached = true;
+        }
+    }
+
+    /** Projects only the items that were added or replaced since we were last read, and records what changed. */
+    private applyParentChanges() {
+        collectReads(undefined, () => {
+            const changes: ArrayChange<TItemOut>[] = [];
+            for (const change of this._parent.sync()) {
+                switch (change.type) {
+                    case 'insert':
+                        this._outputs.splice(change.index, 0, this._projection(change.item));
+                        changes.push({ ...change, item: this._outputs[change.index] });
+                        break;
+                    case 'remove':
+                        changes.push({ ...change, item: this._outputs.splice(change.index, 1)[0] });
+                        break;
+                    case 'move':
+                        this._outputs.splice(change.to, 0, this._outputs.splice(change.from, 1)[0]);
+                        changes.push({ ...change, item: this._outputs[change.to] });
+                        break;
+                    case 'update':
+                        const oldItem = this._outputs[change.index];
+                        this._outputs[change.index] = this._projection(change.item);
+                        changes.push({ ...change, item: this._outputs[change.index], oldItem });
+                        break;
+                }
+            }
+            this._changes.record(changes, this._outputs.length);
+        });
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._cache = undefined;
+        this._outputs = undefined!;
+        this._changes = undefined!;
+        this._parent = undefined!;
+        this._projection = undefined!;
+    }
+}
+
+function compareKeys(a: any, b: any): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export class PipeArraySort<TItem, TKey> extends Pipe<TItem[]> implements PipeArray<TItem> {
+    private _cached: boolean = false;
+    private _cache?: TItem[] = undefined;
+    private _compare: (a: TKey, b: TKey) => number;
+    private _unsubscribeParent: () => void;
+    private _children: ItemPipes<TItem, TKey>;
+
+    constructor(
+        parent: PipeArray<TItem>,
+        keySelector: (value: TItem) => Pipe<TKey>,
+        compare: (a: TKey, b: TKey) => number
+    ) {
+        super();
+        this._compare = compare;
+        this._unsubscribeParent = this.observe(parent);
+        this._children = new ItemPipes(parent, keySelector, pipe => this.observe(pipe));
+    }
+
+    get value() {
+        this.track();
+        if (!this._cached) {
+            this._cache = collectReads(undefined, () => this._children.sync()
+                .map(x => ({ item: x.item, key: x.pipe.value }))
+                .sort((a, b) => this._compare(a.key, b.key))
+                .map(x => x.item));
+            this._cached = true;
+        }
+
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._children.dispose();
+        this._children = undefined!;
+        this._cache = undefined;
+        this._compare = undefined!;
+    }
+}
+
+export class PipeArrayDistinct<TItem, TKey> extends Pipe<TItem[]> implements PipeArray<TItem> {
+    private _cached: boolean = false;
+    private _cache?: TItem[] = undefined;
+    private _unsubscribeParent: () => void;
+    private _children: ItemPipes<TItem, TKey>;
+
+    constructor(
+        parent: PipeArray<TItem>,
+        keySelector: (value: TItem) => Pipe<TKey>
+    ) {
+        super();
+        this._unsubscribeParent = this.observe(parent);
+        this._children = new ItemPipes(parent, keySelector, pipe => this.observe(pipe));
+    }
+
+    get value() {
+        this.track();
+        if (!this._cached) {
+            this._cache = collectReads(undefined, () => {
+                const keys = new Set<TKey>();
+                const cache: TItem[] = [];
+                for (const child of this._children.sync()) {
+                    const key = child.pipe.value;
+                    if (!keys.has(key)) {
+                        keys.add(key);
+                        cache.push(child.item);
+                    }
+                }
+                return cache;
+            });
+            this._cached = true;
+        }
+
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._children.dispose();
+        this._children = undefined!;
+        this._cache = undefined;
+    }
+}
+
+export class PipeArraySlice<TItem> extends Pipe<TItem[]> implements PipeArray<TItem> {
+    private _cached: boolean = false;
+    private _cache?: TItem[] = undefined;
+    private _parent: Pipe<TItem[]>;
+    private _start: Pipe<number>;
+    private _count?: Pipe<number>;
+    private _unsubscribePipes: (() => void)[];
+
+    constructor(
+        parent: PipeArray<TItem>,
+        start: Pipe<number>,
+        count?: Pipe<number>
+    ) {
+        super();
+        this._parent = parent;
+        this._start = start;
+        this._count = count;
+
+        this._unsubscribePipes = [this._parent, this._start, this._count]
+            .filter((pipe): pipe is Pipe<any> => pipe !== undefined)
+            .map(pipe => this.observe(pipe));
+    }
+
+    get value() {
+        this.track();
+        if (!this._cached) {
+            this._cache = collectReads(undefined, () => {
+                const start = this._start.value;
+                return this._count
+                    ? this._parent.value.slice(start, start + this._count.value)
+                    : this._parent.value.slice(start);
+            });
+            this._cached = true;
+        }
+
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribePipes.forEach(x => x());
+        this._unsubscribePipes = undefined!;
+        this._cache = undefined;
+        this._parent = undefined!;
+        this._start = undefined!;
+        this._count = undefined;
+    }
+}
+
+/** Aggregates a pipe selected from each item of an array into one value. */
+export class PipeArrayAggregate<TItem, TValue, TOut> extends Pipe<TOut> implements Pipe<TOut> {
+    private _cached: boolean = false;
+    private _cache?: TOut = undefined;
+    private _aggregate: (children: { item: TItem, pipe: Pipe<TValue> }[]) => TOut;
+    private _unsubscribeParent: () => void;
+    private _children: ItemPipes<TItem, TValue>;
+
+    constructor(
+        parent: PipeArray<TItem>,
+        selector: (value: TItem) => Pipe<TValue>,
+        aggregate: (children: { item: TItem, pipe: Pipe<TValue> }[]) => TOut
+    ) {
+        super();
+        this._aggregate = aggregate;
+        this._unsubscribeParent = this.observe(parent);
+        this._children = new ItemPipes(parent, selector, pipe => this.observe(pipe));
+    }
+
+    get value() {
+        this.track();
+        if (!this._cached) {
+            this._cache = collectReads(undefined, () => this._aggregate(this._children.sync()));
+            this._cached = true;
+        }
+
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._children.dispose();
+        this._children = undefined!;
+        this._cache = undefined;
+        this._aggregate = undefined!;
+    }
+}
+
+export class PipeArrayJoin<TItem, TOther, TKey, TOut> extends Pipe<TOut[]> implements PipeArray<TOut> {
+    private _cached: boolean = false;
+    private _cache?: TOut[] = undefined;
+    private _results = new Map<TItem, Map<TOther, TOut>>();
+    private _result: (item: TItem, other: TOther) => TOut;
+    private _unsubscribeParents: (() => void)[];
+    private _children: ItemPipes<TItem, TKey>;
+    private _others: ItemPipes<TOther, TKey>;
+
+    constructor(
+        parent: PipeArray<TItem>,
+        other: PipeArray<TOther>,
+        key: (value: TItem) => Pipe<TKey>,
+        otherKey: (value: TOther) => Pipe<TKey>,
+        result: (item: TItem, other: TOther) => TOut
+    ) {
+        super();
+        this._result = result;
+        this._unsubscribeParents = [this.observe(parent), this.observe(other)];
+        this._children = new ItemPipes(parent, key, pipe => this.observe(pipe));
+        this._others = new ItemPipes(other, otherKey, pipe => this.observe(pipe));
+    }
+
+    get value() {
+        this.track();
+        if (!this._cached) {
+            this._cache = collectReads(undefined, () => {
+                const others = groupBy(this._others.sync(), x => x.pipe.value);
+
+                // Reuse the results of pairs that are still joined, so that they keep their identity.
+                const results = new Map<TItem, Map<TOther, TOut>>();
+                const cache: TOut[] = [];
+                for (const child of this._children.sync()) {
+                    const oldPairs = this._results.get(child.item);
+                    const pairs = results.get(child.item) ?? new Map<TOther, TOut>();
+                    results.set(child.item, pairs);
+
+                    for (const other of others.get(child.pipe.value) ?? []) {
+                        const result = pairs.has(other.item) ? pairs.get(other.item)!
+                            : oldPairs?.has(other.item) ? oldPairs.get(other.item)!
+                            : this._result(child.item, other.item);
+                        pairs.set(other.item, result);
+                        cache.push(result);
+                    }
+                }
+                this._results = results;
+                return cache;
+            });
+            this._cached = true;
+        }
+
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParents.forEach(x => x());
+        this._unsubscribeParents = undefined!;
+        this._children.dispose();
+        this._children = undefined!;
+        this._others.dispose();
+        this._others = undefined!;
+        this._results = undefined!;
+        this._cache = undefined;
+        this._result = undefined!;
+    }
+}
+
+export class PipeProjection<TIn, TOut> extends Pipe<TOut> implements Pipe<TOut> {
+    private _cached: boolean = false;
+    private _cache?: TOut;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _parent: Pipe<TIn>;
+    private _projection: (value: TIn) => TOut;
+    private _unsubscribeParent: () => void;
+
+    constructor(
+        parent: Pipe<TIn>,
+        projection: (value: TIn) => TOut
+    ) {
+        super();
+        this._parent = parent;
+        this._projection = projection;
+
+        this._unsubscribeParent = this.observe(this._parent);
+    }
+
+    get value(): TOut {
+        this.track();
+        if (!this._cached) {
+            // A failed projection stays failed until the parent changes.
+            try {
+                this._cache = collectReads(undefined, () => this._projection(this._parent.value));
+                this._failed = false;
+                this._error = undefined;
+            }
+            catch (err) {
+                this._cache = undefined;
+                this._failed = true;
+                this._error = err;
+            }
+            this._cached = true;
+        }
+
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._cache = undefined;
+        this._error = undefined;
+        this._parent = undefined!;
+        this._projection = undefined!;
+    }
+}
+
+/** A projection that writes back to its source, which makes it two-way. */
+export class PipeLens<TIn, TOut> extends PipeProjection<TIn, TOut> implements WritablePipe<TOut> {
+    private _source: WritablePipe<TIn>;
+    private _set: (value: TIn, part: TOut) => TIn;
+
+    constructor(
+        source: WritablePipe<TIn>,
+        get: (value: TIn) => TOut,
+        set: (value: TIn, part: TOut) => TIn
+    ) {
+        super(source, get);
+        this._source = source;
+        this._set = set;
+    }
+
+    get value(): TOut {
+        return super.value;
+    }
+    set value(part: TOut) {
+        this.assertActive('write to');
+        collectReads(undefined, () => {
+            if (super.value !== part) {
+                this._source.value = this._set(this._source.value, part);
+            }
+        });
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._source = undefined!;
+        this._set = undefined!;
+    }
+}
+
+export class PipeCatch<T, TOut> extends Pipe<T | TOut> implements Pipe<T | TOut> {
+    private _cached: boolean = false;
+    private _cache?: T | TOut;
+    private _parent: Pipe<T>;
+    private _handler: (error: unknown) => TOut;
+    private _unsubscribeParent: () => void;
+
+    constructor(
+        parent: Pipe<T>,
+        handler: (error: unknown) => TOut
+    ) {
+        super();
+        this._parent = parent;
+        this._handler = handler;
+
+        this._unsubscribeParent = this.observe(this._parent);
+    }
+
+    get value(): T | TOut {
+        this.track();
+        if (!this._cached) {
+            this._cache = collectReads(undefined, () => {
+                try {
+                    return this._parent.value;
+                }
+                catch (err) {
+                    return this._handler(err);
+                }
+            });
+            this._cached = true;
+        }
+
+        return this._cache!;
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._cache = undefined;
+        this._parent = undefined!;
+        this._handler = undefined!;
+    }
+}
+
+export class PipeCombiner extends Pipe<Pipe<any>[]> implements Pipe<Pipe<any>[]> {
+    private _unsubscribePipes: (() => void)[];
+    private _pipes: Pipe<any>[];
+
+    constructor(
+        ...pipes: Pipe<any>[]
+    ) {
+        super();
+        this._pipes = pipes;
+
+        this._unsubscribePipes = this._pipes.map(pipe => this.observe(pipe));
+    }
+
+    get value(): any[] {
+        this.track();
+        return this._pipes;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribePipes.forEach(x => x());
+        this._unsubscribePipes = undefined!;
+    }
+}
+
+export class PipeMonitor<T> extends Pipe<T> implements Pipe<T> {
+    private _parent: Pipe<T>;
+    private _pipeExpressions: ((value: T) => Pipe<any>)[];
+    private _unsubscribeParent: () => void;
+    private _unsubscribeChildren: (() => void)[];
+
+    constructor(
+        parent: Pipe<T>,
+        ...monitoredPipes: ((value: T) => Pipe<any>)[]
+    ) {
+        super();
+        this._parent = parent;
+        this._pipeExpressions = monitoredPipes;
+
+        this._unsubscribeParent = this.observe(this._parent);
+        this._unsubscribeChildren = this._pipeExpressions.map(pipeSelector => {
+            const monitoredPipe = pipeSelector(this._parent.value);
+            return this.observe(monitoredPipe);
+        });
+    }
+
+    get value() {
+        this.track();
+        return collectReads(undefined, () => this._parent.value);
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._unsubscribeChildren.forEach(x => x());
+        this._unsubscribeChildren = undefined!;
+    }
+}
+
+export class PipeComputed<T> extends Pipe<T> implements Pipe<T> {
+    private _cached: boolean = false;
+    private _cache?: T;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _expression: () => T;
+    private _unsubscribeSources = new Map<Pipe<any>, () => void>();
+
+    constructor(
+        expression: () => T
+    ) {
+        super();
+        this._expression = expression;
+
+        // Evaluate once up front so that we know which pipes to subscribe to.
+        this.evaluate();
+    }
+
+    get value(): T {
+        this.track();
+        if (!this._cached) {
+            this.evaluate();
+        }
+
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._cache!;
+    }
+
+    /** Evaluates the expression and subscribes to exactly the pipes it read. */
+    private evaluate() {
+        const sources = new Set<Pipe<any>>();
+        try {
+            this._cache = collectReads(sources, this._expression);
+            this._failed = false;
+            this._error = undefined;
+
+            // Branches that were not taken this time no longer affect our value.
+            for (const [source, unsubscribe] of this._unsubscribeSources) {
+                if (!sources.has(source)) {
+                    unsubscribe();
+                    this._unsubscribeSources.delete(source);
+                }
+            }
+        }
+        catch (err) {
+            // Keep observing everything, so that we find out when the cause of the error changes.
+            this._cache = undefined;
+            this._failed = true;
+            this._error = err;
+        }
+        this._cached = true;
+
+        for (const source of sources) {
+            if (!this._unsubscribeSources.has(source)) {
+                this._unsubscribeSources.set(source, this.observe(source));
+            }
+        }
+    }
+
+    protected invalidate() {
+        this._cached = false;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeSources.forEach(x => x());
+        this._unsubscribeSources = undefined!;
+        this._cache = undefined;
+        this._error = undefined;
+        this._expression = undefined!;
+    }
+}
+
+export class AsyncPipe<T> extends Pipe<T | undefined> {
+    private _value?: T = undefined;
+    private _status = withScope(undefined, () => new State<AsyncStatus>('idle'));
+    private _error = withScope(undefined, () => new State<unknown>(undefined));
+    private _controller?: AbortController = undefined;
+
+    constructor(
+        loader?: (signal: AbortSignal) => Promise<T>
+    ) {
+        super();
+
+        if (loader) {
+            this.load(loader);
+        }
+    }
+
+    /** Returns the most recently resolved value, which is kept while a newer load is pending. */
+    get value() {
+        this.track();
+        return this._value;
+    }
+
+    get status(): AsyncStatus {
+        return this._status.value;
+    }
+
+    get statusPipe(): Pipe<AsyncStatus> {
+        return this._status;
+    }
+
+    /** Returns the reason the most recent load failed, if its status is 'error'. */
+    get error(): unknown {
+        return this._error.value;
+    }
+
+    get errorPipe(): Pipe<unknown> {
+        return this._error;
+    }
+
+    /** Starts loading a new value, aborting any load that is still pending. */
+    load(loader: (signal: AbortSignal) => Promise<T>): void {
+        this._controller?.abort();
+        const controller = this._controller = new AbortController();
+        this._status.value = 'pending';
+
+        let promise: Promise<T>;
+        try {
+            promise = loader(controller.signal);
+        }
+        catch (err) {
+            promise = Promise.reject(err);
+        }
+
+        promise.then(
+            value => this.settle(controller, () => {
+                this._value = value;
+                this._error.value = undefined;
+                this._status.value = 'resolved';
+                this.notify();
+            }),
+            err => this.settle(controller, () => {
+                this._error.value = err;
+                this._status.value = 'error';
+                this.notify();
+            })
+        );
+    }
+
+    /** Aborts the pending load, if any. */
+    abort(): void {
+        if (this._controller) {
+            this._controller.abort();
+            this._controller = undefined;
+            this._status.value = this._value === undefined ? 'idle' : 'resolved';
+        }
+    }
+
+    private settle(controller: AbortController, update: () => void) {
+        // A superseded or aborted load must never overwrite a newer one.
+        if (this._controller !== controller) {
+            return;
+        }
+        this._controller = undefined;
+        reported(() => Pipe.batch(update));
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        this._controller?.abort();
+        this._controller = undefined;
+        super.dispose();
+        this._status.dispose();
+        this._error.dispose();
+        this._value = undefined;
+    }
+}
+
+export class PipeAsyncProjection<TIn, TOut> extends AsyncPipe<TOut> {
+    private _parent: Pipe<TIn>;
+    private _projection: (value: TIn, signal: AbortSignal) => Promise<TOut>;
+    private _unsubscribeParent: () => void;
+
+    constructor(
+        parent: Pipe<TIn>,
+        projection: (value: TIn, signal: AbortSignal) => Promise<TOut>
+    ) {
+        super();
+        this._parent = parent;
+        this._projection = projection;
+
+        // Loading is a side effect, so it is started by a listener rather than by invalidation.
+        // The listener stays until we are disposed, because our status can be observed without observing us.
+        const parentToken = this._parent.subscribe(_ => this.reload());
+        this._unsubscribeParent = this._parent.unsubscribe.bind(this._parent, parentToken);
+
+        this.reload();
+    }
+
+    private reload() {
+        // If reading the parent throws, the load fails with its error.
+        this.load(signal => this._projection(collectReads(undefined, () => this._parent.value), signal));
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._parent = undefined!;
+        this._projection = undefined!;
+    }
+}
+
+export class PipeDistinct<T> extends Pipe<T> implements Pipe<T> {
+    private _value?: T = undefined;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _dirty: boolean = false;
+    private _changed: boolean = false;
+    private _parent: Pipe<T>;
+    private _equals: (a: T, b: T) => boolean;
+    private _unsubscribeParent: () => void;
+
+    constructor(
+        parent: Pipe<T>,
+        equals: (a: T, b: T) => boolean
+    ) {
+        super();
+        this._parent = parent;
+        this._equals = equals;
+        try {
+            this._value = collectReads(undefined, () => this._parent.value);
+        }
+        catch (err) {
+            this._failed = true;
+            this._error = err;
+        }
+
+        this._unsubscribeParent = this.observe(this._parent);
+    }
+
+    get value() {
+        this.track();
+        this.refresh();
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._value!;
+    }
+
+    protected invalidate() {
+        // Comparing means reading the parent, which has to wait until we are read or asked whether we changed.
+        this._dirty = true;
+    }
+
+    protected hasChanged(): boolean {
+        this.refresh();
+        const changed = this._changed;
+        this._changed = false;
+        return changed;
+    }
+
+    protected activate() {
+        // What changed before we were observed is not a change to our new observers.
+        this.refresh();
+        this._changed = false;
+    }
+
+    /** Takes on the parent's value if it is not equal to ours. */
+    private refresh() {
+        if (!this._dirty) {
+            return;
+        }
+        this._dirty = false;
+
+        try {
+            const value = collectReads(undefined, () => this._parent.value);
+            if (!this._failed && this._equals(this._value!, value)) {
+                return;
+            }
+            this._value = value;
+            this._failed = false;
+            this._error = undefined;
+        }
+        catch (err) {
+            if (this._failed && this._error === err) {
+                return;
+            }
+            this._value = undefined;
+            this._failed = true;
+            this._error = err;
+        }
+        this._changed = this.isObserved;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._value = undefined;
+        this._error = undefined;
+        this._parent = undefined!;
+        this._equals = undefined!;
+    }
+}
+
+export class PipeDebounce<T> extends Pipe<T> implements Pipe<T> {
+    private _value?: T = undefined;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _parent: Pipe<T>;
+    private _ms: number;
+    private _scheduler: Scheduler;
+    private _cancelTimer?: () => void = undefined;
+    private _parentToken?: ListenerToken = undefined;
+
+    constructor(
+        parent: Pipe<T>,
+        ms: number,
+        scheduler: Scheduler
+    ) {
+        super();
+        this._parent = parent;
+        this._ms = ms;
+        this._scheduler = scheduler;
+        this.take();
+    }
+
+    get value() {
+        this.track();
+        if (!this.isObserved) {
+            // Nothing is waiting for the parent to settle, so its current value is taken.
+            this.take();
+        }
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._value!;
+    }
+
+    /** Takes on the parent's value, or the error reading it throws, which reading our value throws until the next change. */
+    private take() {
+        try {
+            this._value = collectReads(undefined, () => this._parent.value);
+            this._failed = false;
+            this._error = undefined;
+        }
+        catch (err) {
+            this._value = undefined;
+            this._failed = true;
+            this._error = err;
+        }
+    }
+
+    /** Starts waiting for changes to settle, which is a side effect, so the parent is only subscribed to while we are observed. */
+    protected activate() {
+        this.take();
+        this._parentToken = this._parent.subscribe(_ => {
+            this._cancelTimer?.();
+            this._cancelTimer = this._scheduler(() => reported(() => {
+                this._cancelTimer = undefined;
+                this.take();
+                this.notify();
+            }), this._ms);
+        });
+    }
+
+    protected deactivate() {
+        this._cancelTimer?.();
+        this._cancelTimer = undefined;
+        this._parent.unsubscribe(this._parentToken!);
+        this._parentToken = undefined;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._value = undefined;
+        this._error = undefined;
+        this._parent = undefined!;
+        this._scheduler = undefined!;
+    }
+}
+
+export class PipeThrottle<T> extends Pipe<T> implements Pipe<T> {
+    private _value?: T = undefined;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _dirty: boolean = false;
+    private _changed: boolean = false;
+    private _parent: Pipe<T>;
+    private _ms: number;
+    private _scheduler: Scheduler;
+    private _pending: boolean = false;
+    private _cancelTimer?: () => void = undefined;
+    private _unsubscribeParent: () => void;
+
+    constructor(
+        parent: Pipe<T>,
+        ms: number,
+        scheduler: Scheduler
+    ) {
+        super();
+        this._parent = parent;
+        this._ms = ms;
+        this._scheduler = scheduler;
+        this.read();
+
+        this._unsubscribeParent = this.observe(this._parent);
+    }
+
+    get value() {
+        this.track();
+        this.refresh();
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._value!;
+    }
+
+    protected invalidate() {
+        this._dirty = true;
+    }
+
+    protected hasChanged(): boolean {
+        this.refresh();
+        const changed = this._changed;
+        this._changed = false;
+        return changed;
+    }
+
+    protected activate() {
+        // What changed before we were observed is not a change to our new observers.
+        this.refresh();
+        this._changed = false;
+    }
+
+    /** Takes on the parent's changed value, unless a period is running, in which case it is taken when the period ends. */
+    private refresh() {
+        if (!this._dirty) {
+            return;
+        }
+        this._dirty = false;
+
+        if (this._cancelTimer) {
+            this._pending = true;
+        }
+        else if (this.take()) {
+            this._changed = this.isObserved;
+        }
+    }
+
+    /** Takes on the parent's value, and starts a period in which changes are held back if it changed. */
+    private take(): boolean {
+        this._pending = false;
+        if (!this.read()) {
+            return false;
+        }
+
+        this._cancelTimer = this._scheduler(() => reported(() => {
+            this._cancelTimer = undefined;
+            if (this._pending && this.take()) {
+                this.notify();
+            }
+        }), this._ms);
+        return true;
+    }
+
+    /** Reads the parent's value, or the error reading it throws, and returns whether it is not the one we had. */
+    private read(): boolean {
+        let value: T | undefined = undefined;
+        let failed = false;
+        let error: unknown = undefined;
+        try {
+            value = collectReads(undefined, () => this._parent.value);
+        }
+        catch (err) {
+            failed = true;
+            error = err;
+        }
+
+        const changed = value !== this._value || failed !== this._failed || error !== this._error;
+        this._value = value;
+        this._failed = failed;
+        this._error = error;
+        return changed;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._cancelTimer?.();
+        this._cancelTimer = undefined;
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._value = undefined;
+        this._error = undefined;
+        this._parent = undefined!;
+        this._scheduler = undefined!;
+    }
+}
+
+export class PipeScan<TIn, TAcc> extends Pipe<TAcc> implements Pipe<TAcc> {
+    private _value: TAcc;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _parentValue?: TIn = undefined;
+    private _dirty: boolean = false;
+    private _changed: boolean = false;
+    private _parent: Pipe<TIn>;
+    private _reducer: (accumulator: TAcc, value: TIn) => TAcc;
+    private _unsubscribeParent: () => void;
+
+    constructor(
+        parent: Pipe<TIn>,
+        reducer: (accumulator: TAcc, value: TIn) => TAcc,
+        seed: TAcc
+    ) {
+        super();
+        this._parent = parent;
+        this._reducer = reducer;
+        this._value = seed;
+        // Nothing has been accumulated yet, so the parent's first value counts as new even if it is undefined.
+        this._failed = true;
+        this._dirty = true;
+        this.refresh();
+
+        this._unsubscribeParent = this.observe(this._parent);
+    }
+
+    get value() {
+        this.track();
+        this.refresh();
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._value;
+    }
+
+    protected invalidate() {
+        this._dirty = true;
+    }
+
+    protected hasChanged(): boolean {
+        this.refresh();
+        const changed = this._changed;
+        this._changed = false;
+        return changed;
+    }
+
+    protected activate() {
+        // What changed before we were observed is not a change to our new observers.
+        this.refresh();
+        this._changed = false;
+    }
+
+    /** Accumulates the parent's value if it is a new one, or if the previous one could not be accumulated. */
+    private refresh() {
+        if (!this._dirty) {
+            return;
+        }
+        this._dirty = false;
+
+        try {
+            const value = collectReads(undefined, () => this._parent.value);
+            if (!this._failed && value === this._parentValue) {
+                return;
+            }
+            this._value = collectReads(undefined, () => this._reducer(this._value, value));
+            this._parentValue = value;
+            this._failed = false;
+            this._error = undefined;
+        }
+        catch (err) {
+            if (this._failed && this._error === err) {
+                return;
+            }
+            // The accumulator is kept, and the next value is accumulated into it.
+            this._failed = true;
+            this._error = err;
+        }
+        this._changed = this.isObserved;
+    }
 
-export interface PipeArray<TItem> extends Pipe<TItem[]> {
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeParent();
+        this._unsubscribeParent = undefined!;
+        this._error = undefined;
+        this._parentValue = undefined;
+        this._parent = undefined!;
+        this._reducer = undefined!;
+    }
 }
 
-export class PipeArrayFilter<TItem> extends Pipe<TItem[]> implements PipeArray<TItem> {
-    private _cached: boolean = false;
-    private _cache?: TItem[] = undefined;
-    private _parent: Pipe<TItem[]>;
-    private _predicate: (value: TItem) => Pipe<boolean>;
-    private _unsubscribeParent: () => void;
-    private _unsubscribeChildren: { item: TItem, unsubscribe: (() => void) }[];
+export class PipeSample<T> extends Pipe<T> implements Pipe<T> {
+    private _value?: T = undefined;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _samplerValue: unknown;
+    private _dirty: boolean = false;
+    private _changed: boolean = false;
+    private _parent: Pipe<T>;
+    private _sampler: Pipe<any>;
+    private _unsubscribeSampler: () => void;
 
     constructor(
-        parent: PipeArray<TItem>,
-        predicate: (value: TItem) => Pipe<boolean>
+        parent: Pipe<T>,
+        sampler: Pipe<any>
     ) {
         super();
         this._parent = parent;
-        this._predicate = predicate;
-
-        const parentToken = this._parent.subscribe(_ => {
-            // If the parent changed then items may have been added or removed
-            // so we need to update our subscriptions.
-
-            // Determine added and removed items.
-            const removedSubs = this._unsubscribeChildren
-                .filter(sub => !this._parent.value.some(item => item === sub.item));
-            removedSubs.forEach(sub => {
-                sub.unsubscribe();
-                const i = this._unsubscribeChildren.indexOf(sub);
-                this._unsubscribeChildren.splice(i, 1);
-            });
+        this._sampler = sampler;
+        this._samplerValue = this.readSampler();
+        this.take();
 
-            const addedItems = this._parent.value
-                .filter(item => !this._unsubscribeChildren.some(sub => sub.item === item));
-            const addedSubs = addedItems.map(item => {
-                const pipe = this._predicate(item);
-                const itemToken = pipe.subscribe(_ => this.notify());
-                return { item, unsubscribe: pipe.unsubscribe.bind(pipe, itemToken) };
-            });
-            this._unsubscribeChildren = [...this._unsubscribeChildren, ...addedSubs];
+        // Only the sampler is observed, because changes to the parent must not show until the sampler changes.
+        this._unsubscribeSampler = this.observe(this._sampler);
+    }
 
-            this.notify();
-        });
-        this._unsubscribeParent = () => this._parent.unsubscribe(parentToken);
+    get value() {
+        this.track();
+        this.refresh();
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._value!;
+    }
 
-        this._unsubscribeChildren = this._parent.value.map(item => {
-            const pipe = this._predicate(item);
-            const itemToken = pipe.subscribe(_ => this.notify());
-            return { item, unsubscribe: pipe.unsubscribe.bind(pipe, itemToken) };
-        });
+    protected invalidate() {
+        this._dirty = true;
     }
 
-    get value() {
-        if (!this._cached) {
-            this._cache = this._parent.value.filter(x => this._predicate(x).value)
-            this._cached = true;
+    protected hasChanged(): boolean {
+        this.refresh();
+        const changed = this._changed;
+        this._changed = false;
+        return changed;
+    }
+
+    protected activate() {
+        // What changed before we were observed is not a change to our new observers.
+        this.refresh();
+        this._changed = false;
+    }
+
+    /** Takes on the parent's value if the sampler's value changed. */
+    private refresh() {
+        if (!this._dirty) {
+            return;
         }
+        this._dirty = false;
 
-        return this._cache!;
+        const samplerValue = this.readSampler();
+        if (samplerValue !== this._samplerValue) {
+            this._samplerValue = samplerValue;
+            this.take();
+            this._changed = this.isObserved;
+        }
     }
 
-    protected notify() {
-        // Invalidate the cache before notifying
-        this._cached = false;
-        super.notify();
+    /** Returns the sampler's value, or the error reading it throws, which counts as a change too. */
+    private readSampler(): unknown {
+        try {
+            return collectReads(undefined, () => this._sampler.value);
+        }
+        catch (err) {
+            return err;
+        }
+    }
+
+    private take() {
+        try {
+            this._value = collectReads(undefined, () => this._parent.value);
+            this._failed = false;
+            this._error = undefined;
+        }
+        catch (err) {
+            this._value = undefined;
+            this._failed = true;
+            this._error = err;
+        }
     }
 
     dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
         super.dispose();
-        this._unsubscribeParent();
-        this._unsubscribeParent = undefined!;
-        this._unsubscribeChildren.forEach(x => x.unsubscribe());
-        this._unsubscribeChildren = undefined!;
-        this._cache = undefined;
+        this._unsubscribeSampler();
+        this._unsubscribeSampler = undefined!;
+        this._value = undefined;
+        this._error = undefined;
+        this._samplerValue = undefined;
         this._parent = undefined!;
-        this._predicate = undefined!;
+        this._sampler = undefined!;
     }
 }
 
-export class PipeArrayFirst<TItem> extends Pipe<TItem> {
-    private _parent: Pipe<TItem[]>;
+export class PipeSwitch<TIn, TOut> extends Pipe<TOut> implements Pipe<TOut> {
+    private _parent: Pipe<TIn>;
+    private _parentValue?: TIn = undefined;
+    private _projection: (value: TIn) => Pipe<TOut>;
+    private _inner?: Pipe<TOut> = undefined;
+    private _innerScope?: Scope = undefined;
     private _unsubscribeParent: () => void;
+    private _unsubscribeInner?: () => void = undefined;
 
     constructor(
-        parent: PipeArray<TItem>
+        parent: Pipe<TIn>,
+        projection: (value: TIn) => Pipe<TOut>
     ) {
         super();
         this._parent = parent;
+        this._projection = projection;
 
-        const parentToken = this._parent.subscribe(_ => this.notify());
-        this._unsubscribeParent = () => this._parent.unsubscribe(parentToken);
+        this._unsubscribeParent = this.observe(this._parent);
+        try {
+            collectReads(undefined, () => this.switchTo(this._parent.value));
+        }
+        catch {
+            // Reading our value throws the error, until the parent's value can be switched to.
+        }
     }
 
     get value() {
-        // TODO: What if empty?
-        return this._parent.value[0];
+        this.track();
+        return collectReads(undefined, () => {
+            // Switch to a new inner pipe only if the parent's value changed.
+            const parentValue = this._parent.value;
+            if (!this._inner || parentValue !== this._parentValue) {
+                this.switchTo(parentValue);
+            }
+            return this._inner!.value;
+        });
+    }
+
+    private switchTo(parentValue: TIn) {
+        // The pipes that the projection creates are ours rather than the reader's, and are disposed when we switch away from them.
+        const scope = new Scope();
+        let inner: Pipe<TOut>;
+        try {
+            inner = scope.run(() => this._projection(parentValue));
+        }
+        catch (err) {
+            scope.dispose();
+            throw err;
+        }
+        this._unsubscribeInner?.();
+        this._innerScope?.dispose();
+        this._innerScope = scope;
+        this._parentValue = parentValue;
+        this._inner = inner;
+        this._unsubscribeInner = this.observe(inner);
     }
 
     dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
         super.dispose();
         this._unsubscribeParent();
         this._unsubscribeParent = undefined!;
+        this._unsubscribeInner?.();
+        this._unsubscribeInner = undefined;
+        this._innerScope?.dispose();
+        this._innerScope = undefined;
         this._parent = undefined!;
+        this._parentValue = undefined;
+        this._projection = undefined!;
+        this._inner = undefined;
     }
 }
 
-export class PipeArrayGroup<TItem, TKey> extends Pipe<[TKey, TItem[]][]> implements PipeArray<[TKey, TItem[]]> {
-    private _cached: boolean = false;
-    private _cache?: [TKey, TItem[]][];
-    private _parent: Pipe<TItem[]>;
-    private _expression: (value: TItem) => Pipe<TKey>;
+export class PipeWithPrevious<T> extends Pipe<[current: T, previous: T]> implements Pipe<[current: T, previous: T]> {
+    private _value?: [current: T, previous: T] = undefined;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _dirty: boolean = false;
+    private _changed: boolean = false;
+    private _parent: Pipe<T>;
     private _unsubscribeParent: () => void;
-    private _unsubscribeChildren: { item: TItem, unsubscribe: (() => void) }[];
 
     constructor(
-        parent: PipeArray<TItem>,
-        expression: (value: TItem) => Pipe<TKey>
+        parent: Pipe<T>
     ) {
         super();
         this._parent = parent;
-        this._expression = expression;
+        this._dirty = true;
+        this.refresh();
 
-        const parentToken = this._parent.subscribe(_ => {
-            // If the parent changed then items may have been added or removed
-            // so we need to update our subscriptions.
-
-            // Determine added and removed items.
-            const removedSubs = this._unsubscribeChildren
-                .filter(sub => !this._parent.value.some(item => item === sub.item));
-            removedSubs.forEach(sub => {
-                sub.unsubscribe();
-                const i = this._unsubscribeChildren.indexOf(sub);
-                this._unsubscribeChildren.splice(i, 1);
-            });
+        this._unsubscribeParent = this.observe(this._parent);
+    }
 
-            const addedItems = this._parent.value
-                .filter(item => !this._unsubscribeChildren.some(sub => sub.item === item));
-            const addedSubs = addedItems.map(item => {
-                const pipe = this._expression(item);
-                const itemToken = pipe.subscribe(_ => this.notify());
-                return { item, unsubscribe: pipe.unsubscribe.bind(pipe, itemToken) };
-            });
-            this._unsubscribeChildren = [...this._unsubscribeChildren, ...addedSubs];
+    get value(): [current: T, previous: T] {
+        this.track();
+        this.refresh();
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._value!;
+    }
 
-            this.notify();
-        });
-        this._unsubscribeParent = () => this._parent.unsubscribe(parentToken);
+    protected invalidate() {
+        this._dirty = true;
+    }
 
-        this._unsubscribeChildren = this._parent.value.map(item => {
-            const pipe = this._expression(item);
-            const itemToken = pipe.subscribe(_ => this.notify());
-            return { item, unsubscribe: pipe.unsubscribe.bind(pipe, itemToken) };
-        });
+    protected hasChanged(): boolean {
+        this.refresh();
+        const changed = this._changed;
+        this._changed = false;
+        return changed;
     }
 
-    get value() {
-        if (!this._cached) {
-            const cache = [];
-            for (const item of groupBy(this._parent.value, x => this._expression(x).value)) {
-                cache.push(item);
-            }
-            this._cache = cache;
-            this._cached = true;
-        }
-        return this._cache!;
+    protected activate() {
+        // What changed before we were observed is not a change to our new observers.
+        this.refresh();
+        this._changed = false;
     }
 
-    protected notify() {
-        // Invalidate the cache before notifying
-        this._cached = false;
-        super.notify();
+    /** Moves the current value to previous if the parent has a new one. Errors are skipped, so previous is the last value read. */
+    private refresh() {
+        if (!this._dirty) {
+            return;
+        }
+        this._dirty = false;
+
+        try {
+            const value = collectReads(undefined, () => this._parent.value);
+            if (!this._failed && this._value && value === this._value[0]) {
+                return;
+            }
+            this._value = [value, this._value ? this._value[0] : value];
+            this._failed = false;
+            this._error = undefined;
+        }
+        catch (err) {
+            if (this._failed && this._error === err) {
+                return;
+            }
+            this._failed = true;
+            this._error = err;
+        }
+        this._changed = this.isObserved;
     }
 
     dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
         super.dispose();
         this._unsubscribeParent();
         this._unsubscribeParent = undefined!;
-        this._unsubscribeChildren.forEach(x => x.unsubscribe());
-        this._unsubscribeChildren = undefined!;
-        this._cache = undefined;
+        this._value = undefined;
+        this._error = undefined;
         this._parent = undefined!;
-        this._expression = undefined!;
     }
 }
 
-function groupBy<TItem, TKey>(
-    array: TItem[],
-    keyGetter: (item: TItem) => TKey): Map<TKey, TItem[]> {
+/** The observable that {@link Pipe.toObservable} returns. */
+class PipeObservable<T> implements Observable<T>, InteropObservable<T> {
+    constructor(
+        private _pipe: Pipe<T>) {
+    }
 
-    const map = new Map<TKey, TItem[]>();
-    array.forEach((item) => {
-        const key = keyGetter(item);
-        const collection = map.get(key);
-        if (!collection) map.set(key, [item]);
-        else collection.push(item);
-    });
-    return map;
+    subscribe(observerOrNext: Observer<T> | ((value: T) => void)): Subscription {
+        const pipe = this._pipe;
+        const observer = typeof observerOrNext === 'function' ? { next: observerOrNext } : observerOrNext;
+        if (pipe.isDisposed) {
+            observer.complete?.();
+            return { unsubscribe() { } };
+        }
+
+        let closed = false;
+        const close = () => {
+            if (!closed) {
+                closed = true;
+                if (!pipe.isDisposed) {
+                    pipe.unsubscribe(token);
+                }
+                stopCompleting();
+            }
+        };
+        const emit = () => {
+            let value: T;
+            try {
+                value = collectReads(undefined, () => pipe.value);
+            }
+            catch (err) {
+                close();
+                // An observer that cannot handle errors still has to hear of them.
+                if (!observer.error) {
+                    throw err;
+                }
+                observer.error(err);
+                return;
+            }
+            observer.next?.(value);
+        };
+
+        const token = pipe.subscribe(emit);
+        const stopCompleting = pipe.onDispose(() => {
+            close();
+            observer.complete?.();
+        });
+        emit();
+        return { unsubscribe: close };
+    }
+
+    [observableKey](): Observable<T> {
+        return this;
+    }
 }
 
-export class PipeArrayMap<TItemIn, TItemOut> extends Pipe<TItemOut[]> implements PipeArray<TItemOut> {
-    private _cached: boolean = false;
-    private _cache?: TItemOut[] = undefined;
-    private _parent: Pipe<TItemIn[]>;
-    private _projection: (value: TItemIn) => TItemOut;
-    private _unsubscribeParent: () => void;
+export class PipeFromObservable<T> extends Pipe<T> implements Pipe<T> {
+    private _value: T;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _finished: boolean = false;
+    private _subscription?: Subscription = undefined;
 
     constructor(
-        parent: Pipe<TItemIn[]>,
-        projection: (item: TItemIn) => TItemOut
+        observable: Observable<T> | InteropObservable<T>,
+        initial: T,
+        disposeOnComplete: boolean
     ) {
         super();
-        this._parent = parent;
-        this._projection = projection;
-
-        const parentToken = this._parent.subscribe(_ => this.notify());
-        this._unsubscribeParent = this._parent.unsubscribe.bind(this._parent, parentToken);
-    }
+        this._value = initial;
+
+        const source = observableKey in observable
+            ? (observable as InteropObservable<T>)[observableKey]()
+            : observable as Observable<T>;
+        const subscription = source.subscribe({
+            next: value => {
+                if (!this.isDisposed) {
+                    this._value = value;
+                    this.notify();
+                }
+            },
+            error: err => {
+                this._finished = true;
+                if (!this.isDisposed) {
+                    this._failed = true;
+                    this._error = err;
+                    this.notify();
+                }
+            },
+            complete: () => {
+                this._finished = true;
+                if (disposeOnComplete) {
+                    this.dispose();
+                }
+            },
+        });
 
-    get value() {
-        if (!this._cached) {
-            this._cache = this._parent.value.map(this._projection);
-            this._cached = true;
+        // Observables may finish before subscribe returns, and then there is nothing to unsubscribe from.
+        if (!this._finished) {
+            this._subscription = subscription;
         }
-        return this._cache!;
     }
 
-    protected notify() {
-        // Invalidate cache before notifying
-        this._cached = false;
-        super.notify();
+    get value(): T {
+        this.track();
+        if (this._failed) {
+            throw this._error;
+        }
+        return this._value;
     }
 
     dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
         super.dispose();
-        this._unsubscribeParent();
-        this._unsubscribeParent = undefined!;
-        this._cache = undefined;
-        this._parent = undefined!;
-        this._projection = undefined!;
+        this._subscription?.unsubscribe();
+        this._subscription = undefined;
+        this._value = undefined!;
+        this._error = undefined;
     }
 }
 
-export class PipeProjection<TIn, TOut> extends Pipe<TOut> implements Pipe<TOut> {
-    private _cached: boolean = false;
-    private _cache?: TOut;
-    private _parent: Pipe<TIn>;
-    private _projection: (value: TIn) => TOut;
-    private _unsubscribeParent: () => void;
+/** A pipe whose values come from outside the graph, from a resource that is only started while the pipe is observed. */
+export abstract class PipeSource<T> extends Pipe<T> implements Pipe<T> {
+    private _value: T;
+    private _failed: boolean = false;
+    private _error?: unknown = undefined;
+    private _stop?: () => void = undefined;
 
-    constructor(
-        parent: Pipe<TIn>,
-        projection: (value: TIn) => TOut
-    ) {
+    constructor(initial: T) {
         super();
-        this._parent = parent;
-        this._projection = projection;
-
-        const parentToken = this._parent.subscribe(_ => this.notify());
-        this._unsubscribeParent = this._parent.unsubscribe.bind(this._parent, parentToken);
+        this._value = initial;
     }
 
-    get value(): TOut {
-        if (!this._cached) {
-            this._cache = this._projection(this._parent.value);
-            this._cached = true;
+    get value(): T {
+        this.track();
+        if (this._failed) {
+            throw this._error;
         }
+        return this._value;
+    }
 
-        return this._cache!;
+    /** Starts the resource, and returns a function that stops it. */
+    protected abstract start(): () => void;
+
+    /** Sets the value, and notifies listeners. Resources call this from their own callbacks, so what listeners throw is reported. */
+    protected emit(value: T): void {
+        this._value = value;
+        this._failed = false;
+        this._error = undefined;
+        reported(() => this.notify());
     }
 
-    protected notify() {
-        // Invalidate cache before notifying
-        this._cached = false;
-        super.notify();
+    /** Makes reading the value throw {error}, and notifies listeners, reporting what they throw. */
+    protected fail(error: unknown): void {
+        this._failed = true;
+        this._error = error;
+        reported(() => this.notify());
+    }
+
+    protected activate() {
+        this._stop = this.start();
+    }
+
+    protected deactivate() {
+        this._stop?.();
+        this._stop = undefined;
     }
 
     dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        // Disposing deactivates us, which stops the resource.
         super.dispose();
-        this._unsubscribeParent();
-        this._unsubscribeParent = undefined!;
-        this._cache = undefined;
-        this._parent = undefined!;
-        this._projection = undefined!;
+        this._value = undefined!;
+        this._error = undefined;
     }
 }
 
-export class PipeCombiner extends Pipe<Pipe<any>[]> implements Pipe<Pipe<any>[]> {
-    private _unsubscribePipes: (() => void)[];
-    private _pipes: Pipe<any>[];
+export class PipeEvent<TEvent extends Event> extends PipeSource<TEvent | undefined> {
+    constructor(
+        private _target: EventTarget,
+        private _type: string,
+        private _options?: AddEventListenerOptions
+    ) {
+        super(undefined);
+    }
+
+    protected start() {
+        const listener = (event: Event) => this.emit(event as TEvent);
+        this._target.addEventListener(this._type, listener, this._options);
+        return () => this._target.removeEventListener(this._type, listener, this._options);
+    }
+}
 
+export class PipeInterval extends PipeSource<number> {
     constructor(
-        ...pipes: Pipe<any>[]
+        private _ms: number,
+        private _scheduler: Scheduler
     ) {
-        super();
-        this._pipes = pipes;
+        super(0);
+    }
 
-        this._unsubscribePipes = this._pipes.map(pipe => {
-            const token = pipe.subscribe(_ => this.notify());
-            return pipe.unsubscribe.bind(pipe, token);
-        });
+    protected start() {
+        let cancel: () => void;
+        const schedule = () => {
+            cancel = this._scheduler(() => {
+                schedule();
+                this.emit(Pipe.untracked(() => this.value) + 1);
+            }, this._ms);
+        };
+        schedule();
+        return () => cancel();
     }
+}
 
-    get value(): any[] {
-        return this._pipes;
+export class PipeAnimationFrames extends PipeSource<number> {
+    constructor() {
+        super(performance.now());
     }
 
-    dispose(): void {
-        super.dispose();
-        this._unsubscribePipes.forEach(x => x());
-        this._unsubscribePipes = undefined!;
+    protected start() {
+        let handle: number;
+        const request = () => {
+            handle = requestAnimationFrame(time => {
+                request();
+                this.emit(time);
+            });
+        };
+        request();
+        return () => cancelAnimationFrame(handle);
     }
 }
 
-export class PipeMonitor<T> extends Pipe<T> implements Pipe<T> {
-    private _parent: Pipe<T>;
-    private _pipeExpressions: ((value: T) => Pipe<any>)[];
-    private _unsubscribeParent: () => void;
-    private _unsubscribeChildren: (() => void)[];
+export class PipeFromAsyncIterable<T> extends PipeSource<T> {
+    constructor(
+        private _iterable: AsyncIterable<T>,
+        initial: T
+    ) {
+        super(initial);
+    }
+
+    protected start() {
+        const iterator = this._iterable[Symbol.asyncIterator]();
+        let stopped = false;
+        const next = () => iterator.next().then(
+            result => {
+                if (!stopped && !result.done) {
+                    this.emit(result.value);
+                    next();
+                }
+            },
+            err => {
+                if (!stopped) {
+                    this.fail(err);
+                }
+            });
+        next();
+
+        return () => {
+            stopped = true;
+            // Nothing is waiting for the iterator any more, so there is nobody to tell if it fails to stop.
+            iterator.return?.().catch(() => { });
+        };
+    }
+}
+
+export class PipeMediaQuery extends PipeSource<boolean> {
+    private _list?: MediaQueryList = undefined;
 
     constructor(
-        parent: Pipe<T>,
-        ...monitoredPipes: ((value: T) => Pipe<any>)[]
+        private _query: string
+    ) {
+        super(false);
+    }
+
+    /** Returns whether the query matches, which is current even while nothing listens for changes. */
+    get value(): boolean {
+        this.track();
+        if (this._list) {
+            return this._list.matches;
+        }
+        // There is no media to query on the server.
+        return typeof matchMedia === 'function' && matchMedia(this._query).matches;
+    }
+
+    protected start() {
+        if (typeof matchMedia !== 'function') {
+            return () => {};
+        }
+        const list = matchMedia(this._query);
+        const listener = (event: MediaQueryListEvent) => this.emit(event.matches);
+        list.addEventListener('change', listener);
+        this._list = list;
+        return () => {
+            list.removeEventListener('change', listener);
+            this._list = undefined;
+        };
+    }
+}
+
+/** Resolves to the value of a promise, or of a function that creates one once the pipe is observed. */
+export class PipeFromPromise<T> extends AsyncPipe<T> {
+    private _loader?: (signal: AbortSignal) => Promise<T>;
+
+    constructor(
+        promise: Promise<T> | ((signal: AbortSignal) => Promise<T>)
     ) {
         super();
-        this._parent = parent;
-        this._pipeExpressions = monitoredPipes;
 
-        const parentToken = this._parent.subscribe(_ => this.notify());
-        this._unsubscribeParent = this._parent.unsubscribe.bind(this._parent, parentToken);
-        this._unsubscribeChildren = this._pipeExpressions.map(pipeSelector => {
-            const monitoredPipe = pipeSelector(this._parent.value);
-            const token = monitoredPipe.subscribe(_ => this.notify());
-            return monitoredPipe.unsubscribe.bind(monitoredPipe, token);
-        });
+        if (typeof promise === 'function') {
+            this._loader = promise;
+        }
+        else {
+            // The promise is already running, so there is nothing to start.
+            this.load(() => promise);
+        }
     }
 
-    get value() {
-        return this._parent.value;
+    protected activate() {
+        if (this._loader && this.status === 'idle') {
+            this.load(this._loader);
+        }
+    }
+
+    protected deactivate() {
+        if (this._loader && this.status === 'pending') {
+            this.abort();
+        }
     }
 
     dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
         super.dispose();
-        this._unsubscribeParent();
-        this._unsubscribeParent = undefined!;
-        this._unsubscribeChildren.forEach(x => x());
-        this._unsubscribeChildren = undefined!;
+        this._loader = undefined;
     }
 }
@@ -0,0 +1,128 @@
+import { applyChanges, ArrayChange, ArrayChangeLog, diffArrays, Pipe, PipeArray } from './Pipe';
+
+/** A writable array that notifies with the precise changes made to it, so that array operators can update incrementally. */
+export class StateArray<TItem> extends Pipe<TItem[]> implements PipeArray<TItem> {
+    private _items: TItem[];
+    private _cache?: TItem[] = undefined;
+    private _changes = new ArrayChangeLog<TItem>();
+
+    constructor(items: Iterable<TItem> = []) {
+        super();
+        this._items = [...items];
+    }
+
+    /** Returns a copy of the items, which is replaced rather than mutated when they change. */
+    get value() {
+        this.track();
+        if (!this._cache) {
+            this._cache = [...this._items];
+        }
+        return this._cache;
+    }
+    set value(items: TItem[]) {
+        this.replaceAll(items);
+    }
+
+    get length(): number {
+        this.track();
+        return this._items.length;
+    }
+
+    get version() {
+        return this._changes.version;
+    }
+
+    changesSince(version: number) {
+        return this._changes.changesSince(version);
+    }
+
+    /** Appends {items}, and returns the new length. */
+    push(...items: TItem[]): number {
+        this.insert(this._items.length, ...items);
+        return this._items.length;
+    }
+
+    /** Removes and returns the last item. */
+    pop(): TItem | undefined {
+        return this._items.length > 0
+            ? this.removeAt(this._items.length - 1)
+            : undefined;
+    }
+
+    insert(index: number, ...items: TItem[]): void {
+        this.apply(items.map((item, i) => ({ type: 'insert', index: index + i, item })));
+    }
+
+    /** Removes and returns the item at {index}. */
+    removeAt(index: number): TItem {
+        const item = this._items[index];
+        this.apply([{ type: 'remove', index, item }]);
+        return item;
+    }
+
+    /** Replaces the item at {index}. */
+    set(index: number, item: TItem): void {
+        const oldItem = this._items[index];
+        if (oldItem !== item) {
+            this.apply([{ type: 'update', index, item, oldItem }]);
+        }
+    }
+
+    /** Moves the item at {from} so that it ends up at {to}. */
+    move(from: number, to: number): void {
+        if (from !== to) {
+            this.apply([{ type: 'move', from, to, item: this._items[from] }]);
+        }
+    }
+
+    /** Removes {deleteCount} items starting at {start}, inserts {items} in their place, and returns the removed items. */
+    splice(start: number, deleteCount?: number, ...items: TItem[]): TItem[] {
+        const length = this._items.length;
+        start = start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+        deleteCount = Math.min(Math.max(deleteCount ?? length - start, 0), length - start);
+
+        const removed = this._items.slice(start, start + deleteCount);
+        this.apply([
+            ...removed.map((item): ArrayChange<TItem> => ({ type: 'remove', index: start, item })),
+            ...items.map((item, i): ArrayChange<TItem> => ({ type: 'insert', index: start + i, item })),
+        ]);
+        return removed;
+    }
+
+    /** Sorts the items in place, notifying with the moves that were made. */
+    sort(compare?: (a: TItem, b: TItem) => number): void {
+        this.replaceAll([...this._items].sort(compare));
+    }
+
+    /** Applies {changes}, such as those that {changesSince} returns for another array with the same items. */
+    replay(changes: ArrayChange<TItem>[]): void {
+        this.apply(changes);
+    }
+
+    /** Replaces every item, notifying with the changes between the old and new items. */
+    replaceAll(items: Iterable<TItem>): void {
+        this.apply(diffArrays(this._items, [...items]));
+    }
+
+    private apply(changes: ArrayChange<TItem>[]) {
+        this.assertActive('write to');
+        if (changes.length === 0) {
+            return;
+        }
+
+        this.recordWrite(() => {
+            const items = [...this._items];
+            return () => {
+                this._items = items;
+                this._cache = undefined;
+                this._changes.reset();
+                this.notify();
+            };
+        });
+
+        applyChanges(this._items, changes, item => item);
+        this._changes.record(changes, this._items.length);
+        this._cache = undefined;
+        this.notify();
+    }
+}
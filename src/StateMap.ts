@@ -0,0 +1,235 @@
+import { Pipe, PipeArray, State } from './Pipe';
+import { StateArray } from './StateArray';
+
+/** The state of one key of a map, which the map only holds on to while it is observed. */
+class KeyState<T> extends State<T> {
+    constructor(
+        value: T,
+        private _observed: Set<KeyState<any>>) {
+        super(value);
+    }
+
+    protected activate() {
+        this._observed.add(this);
+    }
+
+    protected deactivate() {
+        this._observed.delete(this);
+    }
+}
+
+type KeyStates<K, T> = Map<K, WeakRef<KeyState<T>>>;
+
+interface CollectedKeyState<K> {
+    states: KeyStates<K, any>;
+    key: K;
+    ref: WeakRef<KeyState<any>>;
+}
+
+/**
+ * A writable map whose keys have their own pipes, which only notify when their entry changes.
+ * Its value is a copy of the entries, which is replaced rather than mutated when they change.
+ */
+export class StateMap<K, V> extends Pipe<ReadonlyMap<K, V>> {
+    private _items: Map<K, V>;
+    private _cache?: ReadonlyMap<K, V> = undefined;
+    // Our pipes are disposed with us, not with the current scope. The pipes of keys are held weakly unless they are observed,
+    // so that those of keys that are no longer used can be collected, along with their entries here.
+    private _valueStates: KeyStates<K, V | undefined> = new Map();
+    private _hasStates: KeyStates<K, boolean> = new Map();
+    private _observedStates = new Set<KeyState<any>>();
+    private _collected = new FinalizationRegistry<CollectedKeyState<K>>(({ states, key, ref }) => {
+        if (states.get(key) === ref) {
+            states.delete(key);
+        }
+    });
+    private _size: State<number>;
+    private _entries: StateArray<[K, V]>;
+    private _keys?: PipeArray<K> = undefined;
+    private _values?: PipeArray<V> = undefined;
+
+    constructor(entries: Iterable<readonly [K, V]> = []) {
+        super();
+        this._items = new Map(entries);
+        this._size = Pipe.unscoped(() => new State(this._items.size));
+        this._entries = Pipe.unscoped(() => new StateArray<[K, V]>(this._items));
+    }
+
+    get value(): ReadonlyMap<K, V> {
+        this.track();
+        if (!this._cache) {
+            this._cache = new Map(this._items);
+        }
+        return this._cache;
+    }
+    set value(entries: ReadonlyMap<K, V>) {
+        this.replaceAll(entries);
+    }
+
+    /** The number of entries, whose pipe only notifies when entries are added or deleted. */
+    get size(): Pipe<number> {
+        return this._size;
+    }
+
+    /** Returns the pipe of the value of {key}, which is the same pipe each time it is asked for a key that is not a pipe, as long as that pipe is still referenced. */
+    get(key: K | Pipe<K>): Pipe<V | undefined> {
+        return key instanceof Pipe
+            ? key.switchMap(k => this.keyState(this._valueStates, k, () => this._items.get(k)))
+            : this.keyState(this._valueStates, key, () => this._items.get(key));
+    }
+
+    /** Returns the pipe of whether there is an entry for {key}, which is the same pipe each time it is asked for a key that is not a pipe, as long as that pipe is still referenced. */
+    has(key: K | Pipe<K>): Pipe<boolean> {
+        return key instanceof Pipe
+            ? key.switchMap(k => this.keyState(this._hasStates, k, () => this._items.has(k)))
+            : this.keyState(this._hasStates, key, () => this._items.has(key));
+    }
+
+    /** Returns the entries in the order their keys were added, as an array that array operators update incrementally. */
+    entries(): PipeArray<[K, V]> {
+        return this._entries;
+    }
+
+    keys(): PipeArray<K> {
+        this._keys ??= Pipe.unscoped(() => this._entries.map(([key]) => key));
+        return this._keys;
+    }
+
+    values(): PipeArray<V> {
+        this._values ??= Pipe.unscoped(() => this._entries.map(([, value]) => value));
+        return this._values;
+    }
+
+    /** Adds or replaces the entry for {key}. */
+    set(key: K, value: V): this {
+        this.assertActive('write to');
+        if (this._items.has(key) && this._items.get(key) === value) {
+            return this;
+        }
+
+        this.update(() => {
+            const index = this.indexOf(key);
+            this._items.set(key, value);
+            if (index >= 0) {
+                this._entries.set(index, [key, value]);
+            }
+            else {
+                this._entries.push([key, value]);
+            }
+            this.updateKey(key);
+        });
+        return this;
+    }
+
+    /** Deletes the entry for {key}, and returns whether there was one. */
+    delete(key: K): boolean {
+        this.assertActive('write to');
+        if (!this._items.has(key)) {
+            return false;
+        }
+
+        this.update(() => {
+            const index = this.indexOf(key);
+            this._items.delete(key);
+            this._entries.removeAt(index);
+            this.updateKey(key);
+        });
+        return true;
+    }
+
+    clear(): void {
+        this.replaceAll([]);
+    }
+
+    /** Replaces every entry, notifying the pipes of the keys whose entries changed. */
+    replaceAll(entries: Iterable<readonly [K, V]>): void {
+        this.assertActive('write to');
+        const items = new Map(entries);
+        const keys = new Set([...this._items.keys(), ...items.keys()]);
+        const changed = [...keys].filter(key => this._items.has(key) !== items.has(key) || this._items.get(key) !== items.get(key));
+        if (changed.length === 0) {
+            return;
+        }
+
+        this.update(() => {
+            this._items = items;
+            this._entries.replaceAll(this.keepIdentities(items));
+            changed.forEach(key => this.updateKey(key));
+        });
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._values?.dispose();
+        this._keys?.dispose();
+        this._entries.dispose();
+        this._size.dispose();
+        for (const states of [this._valueStates, this._hasStates]) {
+            states.forEach(x => x.deref()?.dispose());
+            states.clear();
+        }
+        this._observedStates.clear();
+        this._items.clear();
+        this._cache = undefined;
+    }
+
+    private keyState<T>(states: KeyStates<K, T>, key: K, read: () => T): KeyState<T> {
+        let state = states.get(key)?.deref();
+        if (!state) {
+            this.assertActive('read');
+            state = Pipe.unscoped(() => new KeyState(read(), this._observedStates));
+            const ref = new WeakRef(state);
+            states.set(key, ref);
+            this._collected.register(state, { states, key, ref });
+        }
+        return state;
+    }
+
+    /** Writes the entries in a batch, so that every pipe is up to date before any listener is notified. */
+    private update(write: () => void) {
+        this.recordWrite(() => {
+            const items = new Map(this._items);
+            return () => {
+                // Our pipes roll back their own writes.
+                this._items = items;
+                this._cache = undefined;
+                this.notify();
+            };
+        });
+
+        Pipe.batch(() => {
+            write();
+            this._size.value = this._items.size;
+            this._cache = undefined;
+            this.notify();
+        });
+    }
+
+    private updateKey(key: K) {
+        const value = this._valueStates.get(key)?.deref();
+        if (value) {
+            value.value = this._items.get(key);
+        }
+        const has = this._hasStates.get(key)?.deref();
+        if (has) {
+            has.value = this._items.has(key);
+        }
+    }
+
+    private indexOf(key: K): number {
+        // Maps treat NaN as equal to itself, unlike ===.
+        return Pipe.untracked(() => this._entries.value).findIndex(([k]) => k === key || (k !== k && key !== key));
+    }
+
+    /** Returns the entries of {items}, reusing the entries that did not change so that only changed entries are replaced. */
+    private keepIdentities(items: Map<K, V>): [K, V][] {
+        const current = new Map(Pipe.untracked(() => this._entries.value).map(entry => [entry[0], entry]));
+        return [...items].map(([key, value]) => {
+            const entry = current.get(key);
+            return entry && entry[1] === value ? entry : [key, value];
+        });
+    }
+}
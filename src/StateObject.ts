@@ -0,0 +1,97 @@
+import { Pipe } from './Pipe';
+
+/**
+ * A writable object whose properties, and their properties, have their own writable pipes.
+ * Writing through a property's pipe notifies that pipe, its ancestors, and any of its descendants whose value changed.
+ */
+export class StateObject<T> extends Pipe<T> {
+    private _value: T;
+    private _parent?: StateObject<any> = undefined;
+    private _key?: PropertyKey = undefined;
+    private _props = new Map<PropertyKey, StateObject<any>>();
+
+    constructor(value: T) {
+        super();
+        this._value = value;
+    }
+
+    get value() {
+        this.track();
+        return this._value;
+    }
+    set value(value: T) {
+        this.replace(value);
+    }
+
+    /** Returns the pipe of property {key}, which is the same pipe each time it is asked for. */
+    prop<K extends keyof T>(key: K): StateObject<T[K]> {
+        let prop = this._props.get(key);
+        if (!prop) {
+            // Properties are disposed with us, not with the current scope.
+            prop = Pipe.unscoped(() => new StateObject((this._value as any)?.[key]));
+            prop._parent = this;
+            prop._key = key;
+            this._props.set(key, prop);
+        }
+        return prop;
+    }
+
+    /** Replaces this value, copying each ancestor with the new value in place of the old. */
+    replace(value: T): void {
+        this.assertActive('write to');
+        if (value === this._value) {
+            return;
+        }
+
+        Pipe.batch(() => {
+            let root: StateObject<any> = this;
+            while (root._parent) {
+                root = root._parent;
+            }
+            root.recordWrite(() => {
+                const rootValue = root._value;
+                return () => root.update(rootValue);
+            });
+
+            this.update(value);
+            for (let prop: StateObject<any> = this; prop._parent; prop = prop._parent) {
+                prop._parent.update(withProperty(prop._parent._value, prop._key!, prop._value));
+            }
+        });
+    }
+
+    /** Replaces the properties in {values}, leaving the rest as they are. */
+    patch(values: Partial<T>): void {
+        this.replace({ ...this._value, ...values });
+    }
+
+    /** Sets this value and the values of our property pipes, notifying those that changed. */
+    private update(value: T) {
+        if (value === this._value) {
+            return;
+        }
+
+        this._value = value;
+        this.notify();
+
+        for (const [key, prop] of this._props) {
+            prop.update((value as any)?.[key]);
+        }
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._props.forEach(x => x.dispose());
+        this._props = undefined!;
+        this._parent = undefined;
+    }
+}
+
+function withProperty(target: any, key: PropertyKey, value: any): any {
+    const copy = Array.isArray(target) ? [...target] : { ...target };
+    copy[key] = value;
+    return copy;
+}
@@ -0,0 +1,91 @@
+import { Pipe, PipeArray } from './Pipe';
+import { StateMap } from './StateMap';
+
+/**
+ * A writable set whose items have their own pipes of whether they are in it, which only notify when that changes.
+ * Its value is a copy of the items, which is replaced rather than mutated when they change.
+ */
+export class StateSet<T> extends Pipe<ReadonlySet<T>> {
+    private _cache?: ReadonlySet<T> = undefined;
+    private _map: StateMap<T, T>;
+    private _unsubscribeMap: () => void;
+
+    constructor(items: Iterable<T> = []) {
+        super();
+        // Our map is disposed with us, not with the current scope.
+        this._map = Pipe.unscoped(() => new StateMap([...items].map(item => [item, item] as const)));
+        this._unsubscribeMap = this.observe(this._map);
+    }
+
+    get value(): ReadonlySet<T> {
+        this.track();
+        if (!this._cache) {
+            this._cache = new Set(Pipe.untracked(() => this._map.value).keys());
+        }
+        return this._cache;
+    }
+    set value(items: ReadonlySet<T>) {
+        this.replaceAll(items);
+    }
+
+    /** The number of items, whose pipe only notifies when items are added or deleted. */
+    get size(): Pipe<number> {
+        return this._map.size;
+    }
+
+    /** Returns the pipe of whether {item} is in the set, which is the same pipe each time it is asked for an item that is not a pipe. */
+    has(item: T | Pipe<T>): Pipe<boolean> {
+        return this._map.has(item);
+    }
+
+    /** Returns the items in the order they were added, as an array that array operators update incrementally. */
+    values(): PipeArray<T> {
+        return this._map.keys();
+    }
+
+    add(item: T): this {
+        this._map.set(item, item);
+        return this;
+    }
+
+    /** Deletes {item}, and returns whether it was in the set. */
+    delete(item: T): boolean {
+        return this._map.delete(item);
+    }
+
+    /** Adds {item} if it is not in the set and deletes it if it is, or adds it if {force} is true and deletes it if false. Returns whether it is in the set. */
+    toggle(item: T, force?: boolean): boolean {
+        const add = force ?? !Pipe.untracked(() => this._map.value).has(item);
+        if (add) {
+            this.add(item);
+        }
+        else {
+            this.delete(item);
+        }
+        return add;
+    }
+
+    clear(): void {
+        this._map.clear();
+    }
+
+    /** Replaces every item, notifying the pipes of the items that were added or deleted. */
+    replaceAll(items: Iterable<T>): void {
+        this._map.replaceAll([...items].map(item => [item, item] as const));
+    }
+
+    protected invalidate() {
+        this._cache = undefined;
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this._unsubscribeMap();
+        this._unsubscribeMap = undefined!;
+        this._map.dispose();
+        this._cache = undefined;
+    }
+}
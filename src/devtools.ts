@@ -0,0 +1,74 @@
+import type { Pipe, PipeLifecycle } from './Pipe';
+
+/** A pipe in a {@link PipeGraph}. */
+export interface PipeNode {
+    id: number;
+    name?: string;
+    type: string;
+    lifecycle: PipeLifecycle;
+    listenerCount: number;
+    /** True if the pipe changed since its value was last read, so any cache it has will be recomputed. */
+    stale: boolean;
+}
+
+/** An edge from a source pipe to a pipe that observes it. */
+export interface PipeEdge {
+    from: number;
+    to: number;
+}
+
+/** The pipes upstream and downstream of a pipe, as returned by `Pipe.inspect`. */
+export class PipeGraph {
+    constructor(
+        public readonly root: number,
+        public readonly nodes: PipeNode[],
+        public readonly edges: PipeEdge[]) {
+    }
+
+    toJSON() {
+        return { root: this.root, nodes: this.nodes, edges: this.edges };
+    }
+
+    /** Returns the graph in Graphviz DOT format. */
+    toDot(): string {
+        const lines = ['digraph pipes {'];
+        for (const node of this.nodes) {
+            const title = node.name ? `${node.type} '${node.name}'` : node.type;
+            const status = [
+                `${node.listenerCount} listener${node.listenerCount === 1 ? '' : 's'}`,
+                ...(node.stale ? ['stale'] : []),
+                ...(node.lifecycle !== 'active' ? [node.lifecycle] : []),
+            ].join(', ');
+            const style = node.id === this.root ? ', style=bold' : '';
+            lines.push(`  p${node.id} [label="${escapeDot(title)}\\n${escapeDot(status)}"${style}];`);
+        }
+        for (const edge of this.edges) {
+            lines.push(`  p${edge.from} -> p${edge.to};`);
+        }
+        lines.push('}');
+        return lines.join('\n');
+    }
+}
+
+function escapeDot(text: string): string {
+    return text.replace(/["\\]/g, x => '\\' + x);
+}
+
+/** Receives debug events from every pipe, once installed with `Pipe.debug`. */
+export interface PipeDebugHook {
+    /** Called when a source pipe, such as a {@link State}, is written to. */
+    write?(pipe: Pipe<any>): void;
+
+    /** Called after the listeners of {pipe} were notified of a change, which took {milliseconds}. */
+    notify?(pipe: Pipe<any>, listenerCount: number, milliseconds: number): void;
+}
+
+/** Logs every write and notification to the console. */
+export const consoleDebugHook: PipeDebugHook = {
+    write(pipe) {
+        console.debug(`write ${pipe}`);
+    },
+    notify(pipe, listenerCount, milliseconds) {
+        console.debug(`notify ${pipe}: ${listenerCount} listener(s) in ${milliseconds.toFixed(2)}ms`);
+    },
+};
@@ -0,0 +1,1057 @@
+import { DuplicateKeyError } from './errors';
+import { Pipe, Scope, State } from './Pipe';
+
+/** A pipe of any value assignable to {T}, which `Pipe<T>` is not because pipes are invariant. */
+export interface PipeOf<T> extends Pipe<any> {
+    readonly value: T;
+}
+
+/**
+ * Something that can be rendered: text, a node, a list of them, or a pipe, promise or function of one.
+ * Null, undefined and booleans render nothing, so that `cond && h(...)` works.
+ */
+export type HChild =
+    | string
+    | number
+    | boolean
+    | null
+    | undefined
+    | Node
+    | HChild[]
+    | PipeOf<HChild>
+    | Promise<HChild>
+    | (() => HChild);
+
+/** A child of an element, which may also be a function that edits the element through a builder. */
+export type HElementChild<TElement extends Element> =
+    | HChild
+    | ((builder: ElementBuilder<TElement>) => ElementBuilder<TElement> | HChild);
+
+/** A value, or a pipe of a value that is applied again whenever it changes. */
+export type Reactive<T> = T | PipeOf<T>;
+
+/** An attribute value. True sets an empty attribute, and false, null and undefined remove it. */
+export type HAttributeValue = string | number | boolean | null | undefined;
+
+/** A class attribute, or an object of class names that are toggled on and off. */
+export type HClasses = Reactive<string> | { [className: string]: Reactive<boolean> };
+
+/** A style attribute, or an object of CSS properties in camelCase or kebab-case. Numbers are not given units. */
+export type HStyles = Reactive<string> | { [property: string]: Reactive<string | number | null | undefined> };
+
+/** Event handlers named like `onClick`, typed by the event they handle. */
+export type HEvents<TElement extends Element> = {
+    [K in keyof GlobalEventHandlersEventMap as `on${Capitalize<K>}`]?: (event: GlobalEventHandlersEventMap[K] & { currentTarget: TElement }) => void;
+};
+
+export type HAttributes<TElement extends Element = Element> = HEvents<TElement> & {
+    class?: HClasses;
+    style?: HStyles;
+    [name: string]: Reactive<HAttributeValue> | HClasses | HStyles | ((event: any) => void);
+};
+
+/** A difference between the nodes that {@link hydrate} rendered and the nodes it found, whose parent is rendered again because of it. */
+export interface HydrationMismatch {
+    /** The node that was rendered, such as `<div>`, `"Hello"` or `<!---->`, or `nothing` if the node found was extra. */
+    expected: string;
+    /** The node that was found instead, or null if there were no more nodes. */
+    actual: Node | null;
+    parent: Node;
+}
+
+const svgNamespace = 'http://www.w3.org/2000/svg';
+
+/** Attributes that inputs stop reflecting once the user edits them, so they are set as properties instead. */
+const properties = new Set(['value', 'checked', 'selected']);
+
+/** Elements that have no closing tag in HTML. */
+const voidElements = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/** Creates the nodes that {@link h} and the other functions of this module render. */
+interface Renderer {
+    /** Whether bindings subscribe to their pipes, which they must not while rendering to a string. */
+    readonly live: boolean;
+    createElement(tagName: string, namespace: string | undefined): Element;
+    createText(data: string): Text;
+    createComment(): Comment;
+    createFragment(): DocumentFragment;
+    /** Whether {node} was taken from the page rather than created, so it is already where it belongs. */
+    isPlaced(node: Node): boolean;
+}
+
+/** Renders to the DOM of the current document. */
+const domRenderer: Renderer = {
+    live: true,
+    createElement: (tagName, namespace) => namespace
+        ? document.createElementNS(namespace, tagName)
+        : document.createElement(tagName),
+    createText: data => document.createTextNode(data),
+    createComment: () => document.createComment(''),
+    createFragment: () => document.createDocumentFragment(),
+    isPlaced: () => false,
+};
+
+let renderer: Renderer = domRenderer;
+
+function withRenderer<V>(current: Renderer, fn: () => V): V {
+    const outerRenderer = renderer;
+    renderer = current;
+    try {
+        return fn();
+    }
+    finally {
+        renderer = outerRenderer;
+    }
+}
+
+/** Appends {nodes} to {parent}, except for those that hydration took from the page, which must not be moved. */
+function append(parent: ParentNode, ...nodes: Node[]) {
+    parent.append(...nodes.filter(x => !renderer.isPlaced(x)));
+}
+
+/** Disposes {dispose} along with the current scope, if there is one. */
+function onCleanup(dispose: () => void) {
+    Scope.current?.add({ dispose });
+}
+
+/** Applies {value}, and if it is a pipe applies it again whenever it changes until the current scope is disposed. */
+function bind<T>(value: Reactive<T>, apply: (value: T) => void) {
+    if (value instanceof Pipe) {
+        const pipe = value as Pipe<T>;
+        apply(Pipe.untracked(() => pipe.value));
+        if (renderer.live) {
+            const token = pipe.subscribe(() => apply(Pipe.untracked(() => pipe.value)));
+            onCleanup(() => {
+                if (!pipe.isDisposed) {
+                    pipe.unsubscribe(token);
+                }
+            });
+        }
+    }
+    else {
+        apply(value as T);
+    }
+}
+
+function isAttributes(value: unknown): value is HAttributes {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !(value instanceof Pipe);
+}
+
+function setAttribute(element: Element, name: string, value: HAttributeValue) {
+    if (properties.has(name) && name in element) {
+        if (renderer.isPlaced(element)) {
+            // What the user typed before the page was hydrated wins over what the server rendered.
+            return;
+        }
+        const target = element as any;
+        target[name] = typeof target[name] === 'boolean' ? !!value : value ?? '';
+    }
+    else if (value === false || value === null || value === undefined) {
+        element.removeAttribute(name);
+    }
+    else {
+        element.setAttribute(name, value === true ? '' : String(value));
+    }
+}
+
+function setStyle(element: Element, property: string, value: string | number | null | undefined) {
+    const style = (element as HTMLElement | SVGElement).style;
+    const name = property.includes('-') ? property : property.replace(/[A-Z]/g, x => '-' + x.toLowerCase());
+    if (value === null || value === undefined || value === '') {
+        style.removeProperty(name);
+    }
+    else {
+        style.setProperty(name, String(value));
+    }
+}
+
+function setAttributes(element: Element, attributes: HAttributes) {
+    for (const [name, value] of Object.entries(attributes)) {
+        if (typeof value === 'function') {
+            if (!name.startsWith('on')) {
+                throw new TypeError(`The ${name} attribute of <${element.tagName}> is a function, so its name must start with "on".`);
+            }
+            element.addEventListener(name.substring(2, 3).toLowerCase() + name.substring(3), value as EventListener);
+        }
+        else if (name === 'class' && isRecord(value)) {
+            for (const [className, on] of Object.entries(value)) {
+                bind(on as Reactive<boolean>, x => element.classList.toggle(className, !!x));
+            }
+        }
+        else if (name === 'style' && isRecord(value)) {
+            for (const [property, style] of Object.entries(value)) {
+                bind(style as Reactive<string | number | null | undefined>, x => setStyle(element, property, x));
+            }
+        }
+        else {
+            bind(value as Reactive<HAttributeValue>, x => setAttribute(element, name, x));
+        }
+    }
+}
+
+function removeBetween(begin: Node, end: Node) {
+    for (let next = begin.nextSibling; next && next !== end; next = begin.nextSibling) {
+        next.remove();
+    }
+}
+
+/** Creates a fragment of {children} with the current renderer. */
+function toFragment(...children: HChild[]): DocumentFragment {
+    const fragment = renderer.createFragment();
+    children.forEach(x => appendNode(fragment, x));
+    return fragment;
+}
+
+/** Renders {pipe} between two comments, and renders it again in a new scope whenever it changes. */
+function appendPipe(parent: ParentNode, pipe: PipeOf<HChild>) {
+    const begin = renderer.createComment();
+    const end = renderer.createComment();
+    append(parent, begin, end);
+
+    let scope = new Scope();
+    end.before(scope.run(() => toFragment(Pipe.untracked(() => pipe.value))));
+    if (!renderer.live) {
+        onCleanup(() => scope.dispose());
+        return;
+    }
+
+    const token = pipe.subscribe(() => {
+        scope.dispose();
+        removeBetween(begin, end);
+        scope = new Scope();
+        end.before(scope.run(() => toFragment(Pipe.untracked(() => pipe.value))));
+    });
+    onCleanup(() => {
+        if (!pipe.isDisposed) {
+            pipe.unsubscribe(token);
+        }
+        scope.dispose();
+    });
+}
+
+/**
+ * Renders a comment in place of {promise} until it resolves, unless the current scope is disposed first.
+ * If it rejects, or rendering its child throws, the comment stays and the error is reported through {@link Pipe.onUnhandledError}.
+ */
+function appendPromise(parent: ParentNode, promise: Promise<HChild>) {
+    const placeholder = renderer.createComment();
+    append(parent, placeholder);
+
+    const scope = new Scope();
+    let disposed = false;
+    onCleanup(() => {
+        disposed = true;
+        scope.dispose();
+    });
+
+    promise
+        .then(child => {
+            if (!disposed) {
+                placeholder.replaceWith(scope.run(() => toFragment(child)));
+            }
+        })
+        .catch(err => {
+            if (!disposed) {
+                Pipe.reportError(err);
+            }
+        });
+}
+
+/** Appends {child} to {parent}. Bindings to pipes last until the current scope is disposed. */
+export function appendNode(parent: ParentNode, child: HChild): void {
+    if (child === null || child === undefined || typeof child === 'boolean') {
+        return;
+    }
+    else if (child instanceof Pipe) {
+        appendPipe(parent, child);
+    }
+    else if (child instanceof Promise) {
+        appendPromise(parent, child);
+    }
+    else if (Array.isArray(child)) {
+        child.forEach(x => appendNode(parent, x));
+    }
+    else if (typeof child === 'function') {
+        appendNode(parent, child());
+    }
+    else if (typeof child === 'string' || typeof child === 'number') {
+        append(parent, renderer.createText(String(child)));
+    }
+    else {
+        append(parent, child);
+    }
+}
+
+/** Edits an element, for children of {@link h} that are functions. */
+export class ElementBuilder<TElement extends Element> {
+    constructor(
+        public element: TElement) {
+    }
+
+    append(...children: HChild[]): this {
+        children.forEach(x => appendNode(this.element, x));
+        return this;
+    }
+
+    set(attributes: HAttributes<TElement>): this;
+    set(name: string, value: Reactive<HAttributeValue>): this;
+    set(nameOrAttributes: string | HAttributes<TElement>, value?: Reactive<HAttributeValue>) {
+        setAttributes(this.element, typeof nameOrAttributes === 'string'
+            ? { [nameOrAttributes]: value }
+            : nameOrAttributes as HAttributes);
+        return this;
+    }
+
+    /** Adds an event listener, including for events that {@link HEvents} does not know about. */
+    on<K extends keyof GlobalEventHandlersEventMap>(type: K, listener: (event: GlobalEventHandlersEventMap[K] & { currentTarget: TElement }) => void): this;
+    on(type: string, listener: (event: Event) => void): this;
+    on(type: string, listener: (event: any) => void) {
+        this.element.addEventListener(type, listener);
+        return this;
+    }
+}
+
+/** Appends {args} to {element}, setting the attributes first if the first of them is a plain object. */
+function build<TElement extends Element>(element: TElement, args: unknown[]) {
+    let children = args;
+    if (isAttributes(args[0])) {
+        setAttributes(element, args[0]);
+        children = args.slice(1);
+    }
+
+    let builder: ElementBuilder<TElement> | undefined = undefined;
+    for (const child of children) {
+        if (typeof child === 'function') {
+            builder ??= new ElementBuilder(element);
+            const result = child(builder);
+            if (!(result instanceof ElementBuilder)) {
+                appendNode(element, result);
+            }
+        }
+        else {
+            appendNode(element, child as HChild);
+        }
+    }
+}
+
+function createElement(tagName: string, namespace: string | undefined, classNames: string[], args: unknown[]): Element {
+    const element = renderer.createElement(tagName, namespace);
+    if (classNames.length > 0) {
+        element.setAttribute('class', classNames.join(' '));
+    }
+
+    build(element, args);
+    return element;
+}
+
+/** Create an HTML element. A tag name like `p.note.small` adds classes, and a tag name like `.note` creates a div. */
+export function h<TTagName extends keyof HTMLElementTagNameMap>(
+    tagName: TTagName,
+    attributes: HAttributes<HTMLElementTagNameMap[TTagName]>,
+    ...children: HElementChild<HTMLElementTagNameMap[TTagName]>[])
+    : HTMLElementTagNameMap[TTagName];
+
+export function h<TTagName extends keyof HTMLElementTagNameMap>(
+    tagName: TTagName,
+    ...children: HElementChild<HTMLElementTagNameMap[TTagName]>[])
+    : HTMLElementTagNameMap[TTagName];
+
+export function h(
+    tagName: string,
+    attributes: HAttributes<HTMLElement>,
+    ...children: HElementChild<HTMLElement>[])
+    : HTMLElement;
+
+export function h(
+    tagName: string,
+    ...children: HElementChild<HTMLElement>[])
+    : HTMLElement;
+
+export function h(tagName: string, ...args: unknown[]): HTMLElement {
+    const [name, ...classNames] = tagName.split('.');
+    return createElement(name || 'div', undefined, classNames, args) as HTMLElement;
+}
+
+/** Create an SVG element. */
+export function svg<TTagName extends keyof SVGElementTagNameMap>(
+    tagName: TTagName,
+    attributes: HAttributes<SVGElementTagNameMap[TTagName]>,
+    ...children: HElementChild<SVGElementTagNameMap[TTagName]>[])
+    : SVGElementTagNameMap[TTagName];
+
+export function svg<TTagName extends keyof SVGElementTagNameMap>(
+    tagName: TTagName,
+    ...children: HElementChild<SVGElementTagNameMap[TTagName]>[])
+    : SVGElementTagNameMap[TTagName];
+
+export function svg(tagName: keyof SVGElementTagNameMap, ...args: unknown[]): SVGElement {
+    return createElement(tagName, svgNamespace, [], args) as SVGElement;
+}
+
+/** Create a text node. */
+export function n(value: string | Node): Node {
+    return typeof value === 'string' ? renderer.createText(value) : value;
+}
+
+/** Create a document fragment. */
+export function f(...children: HChild[]): DocumentFragment {
+    return toFragment(...children);
+}
+
+interface EachRow<TItem> {
+    key: unknown;
+    item: State<TItem>;
+    index: State<number>;
+    scope: Scope;
+    begin: Comment;
+    end: Comment;
+}
+
+/**
+ * Renders a row for each of {items}, keeping the rows of items whose {key} stays the same as the items change.
+ * Rows are only inserted, moved and removed as needed, so they keep focus, scroll position and input state.
+ * Each row is rendered once, in its own scope that is disposed when the row is removed. Its item and index are
+ * passed as pipes, which change when an item with the same key is replaced or moves.
+ */
+export function each<TItem>(
+    items: Pipe<TItem[]>,
+    key: (item: TItem) => unknown,
+    render: (item: Pipe<TItem>, index: Pipe<number>) => HChild
+): DocumentFragment {
+    const fragment = renderer.createFragment();
+    const begin = renderer.createComment();
+    const end = renderer.createComment();
+    append(fragment, begin, end);
+
+    new KeyedList(items, key, render, end).update();
+    return fragment;
+}
+
+/** Returns the key of each of {values}, which must be unique. */
+function keysOf<TItem>(values: TItem[], key: (item: TItem) => unknown): unknown[] {
+    const keys = values.map(key);
+    const seen = new Set<unknown>();
+    for (const k of keys) {
+        if (seen.has(k)) {
+            throw new DuplicateKeyError(k);
+        }
+        seen.add(k);
+    }
+    return keys;
+}
+
+/** Keeps the rows before {end} in step with the items of a keyed list, until the current scope is disposed. */
+class KeyedList<TItem> {
+    private rows: EachRow<TItem>[] = [];
+
+    constructor(
+        private items: Pipe<TItem[]>,
+        private key: (item: TItem) => unknown,
+        private render: (item: Pipe<TItem>, index: Pipe<number>) => HChild,
+        private end: Comment) {
+
+        const token = renderer.live ? items.subscribe(() => this.update()) : undefined;
+        onCleanup(() => {
+            if (token !== undefined && !items.isDisposed) {
+                items.unsubscribe(token);
+            }
+            this.rows.forEach(x => x.scope.dispose());
+        });
+    }
+
+    update() {
+        const values = Pipe.untracked(() => this.items.value);
+        const keys = keysOf(values, this.key);
+
+        const oldRows = new Map(this.rows.map((row, i) => [row.key, { row, i }]));
+        const oldIndexes: number[] = [];
+        const newRows = Pipe.batch(() => values.map((value, i) => {
+            const old = oldRows.get(keys[i]);
+            if (old) {
+                oldRows.delete(keys[i]);
+                oldIndexes.push(old.i);
+                old.row.item.value = value;
+                old.row.index.value = i;
+                return old.row;
+            }
+            oldIndexes.push(-1);
+            return this.createRow(keys[i], value, i);
+        }));
+
+        for (const { row } of oldRows.values()) {
+            row.scope.dispose();
+            rowNodes(row).forEach(x => x.remove());
+        }
+
+        // Rows that are already in order stay where they are, and the rest are moved or inserted around them.
+        const staying = increasingSubsequence(oldIndexes);
+        let anchor: Node = this.end;
+        for (let i = newRows.length - 1; i >= 0; i--) {
+            const row = newRows[i];
+            if (!staying.has(i)) {
+                anchor.parentNode!.insertBefore(fragmentOf(rowNodes(row)), anchor);
+            }
+            anchor = row.begin;
+        }
+
+        this.rows = newRows;
+    }
+
+    private createRow(key: unknown, value: TItem, index: number): EachRow<TItem> {
+        const scope = new Scope();
+        return scope.run(() => {
+            const row = {
+                key,
+                item: new State(value),
+                index: new State(index),
+                scope,
+                begin: renderer.createComment(),
+                end: renderer.createComment(),
+            };
+            const rowFragment = renderer.createFragment();
+            append(rowFragment, row.begin, toFragment(this.render(row.item, row.index)), row.end);
+            return row;
+        });
+    }
+}
+
+function rowNodes(row: EachRow<any>): ChildNode[] {
+    const nodes: ChildNode[] = [row.begin];
+    for (let next = row.begin.nextSibling; next && next !== row.end; next = next.nextSibling) {
+        nodes.push(next);
+    }
+    nodes.push(row.end);
+    return nodes;
+}
+
+function fragmentOf(nodes: Node[]): DocumentFragment {
+    const fragment = renderer.createFragment();
+    append(fragment, ...nodes);
+    return fragment;
+}
+
+/** Returns the positions of a longest increasing subsequence of {sequence}, ignoring negative numbers. */
+function increasingSubsequence(sequence: number[]): Set<number> {
+    // tails[n] is the position of the smallest value that ends an increasing subsequence of length n + 1.
+    const tails: number[] = [];
+    const previous: number[] = [];
+    sequence.forEach((value, i) => {
+        if (value < 0) {
+            return;
+        }
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (sequence[tails[middle]] < value) {
+                low = middle + 1;
+            }
+            else {
+                high = middle;
+            }
+        }
+        previous[i] = low > 0 ? tails[low - 1] : -1;
+        tails[low] = i;
+    });
+
+    const positions = new Set<number>();
+    for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = previous[i]) {
+        positions.add(i);
+    }
+    return positions;
+}
+
+/**
+ * Renders what {render} returns at the end of {parent}. Disposing the returned scope removes what was rendered,
+ * stops its bindings and disposes the pipes that were created while rendering it.
+ * Bindings are made when {@link h} is called, which is why this takes a function rather than elements.
+ */
+export function mount(parent: ParentNode, render: () => HChild): Scope {
+    return Pipe.scope(scope => {
+        const begin = renderer.createComment();
+        const end = renderer.createComment();
+        parent.append(begin, end);
+        scope.add({
+            dispose() {
+                removeBetween(begin, end);
+                begin.remove();
+                end.remove();
+            },
+        });
+
+        end.before(toFragment(render()));
+    });
+}
+
+// Server rendering
+
+/** Stands in for a node while rendering to a string, so that rendering needs no DOM. */
+abstract class ServerNode {
+    parentNode: ServerParent | null = null;
+
+    get nextSibling(): ServerNode | null {
+        const siblings = this.parentNode?.childNodes;
+        return siblings?.[siblings.indexOf(this) + 1] ?? null;
+    }
+
+    abstract get textContent(): string;
+
+    before(...nodes: (ServerNode | Node | string)[]): void {
+        const parent = this.parentNode!;
+        nodes.forEach(x => parent.insertBefore(toServerNode(x), this));
+    }
+
+    replaceWith(...nodes: (ServerNode | Node | string)[]): void {
+        this.before(...nodes);
+        this.remove();
+    }
+
+    remove(): void {
+        if (this.parentNode) {
+            const siblings = this.parentNode.childNodes;
+            siblings.splice(siblings.indexOf(this), 1);
+            this.parentNode = null;
+        }
+    }
+
+    /** Returns the node as HTML. */
+    abstract toString(): string;
+}
+
+abstract class ServerParent extends ServerNode {
+    readonly childNodes: ServerNode[] = [];
+
+    get firstChild(): ServerNode | null {
+        return this.childNodes[0] ?? null;
+    }
+
+    get textContent(): string {
+        return this.childNodes.map(x => x.textContent).join('');
+    }
+
+    append(...nodes: (ServerNode | Node | string)[]): void {
+        nodes.forEach(x => this.insertBefore(toServerNode(x), null));
+    }
+
+    /** Inserts {node} before {before}, or at the end. Inserting a fragment inserts its children, as in the DOM. */
+    insertBefore<TNode extends ServerNode>(node: TNode, before: ServerNode | null): TNode {
+        const nodes = node instanceof ServerFragment ? [...node.childNodes] : [node];
+        for (const x of nodes) {
+            x.remove();
+            const i = before ? this.childNodes.indexOf(before) : -1;
+            this.childNodes.splice(i >= 0 ? i : this.childNodes.length, 0, x);
+            x.parentNode = this;
+        }
+        return node;
+    }
+
+    replaceChildren(...nodes: (ServerNode | Node | string)[]): void {
+        [...this.childNodes].forEach(x => x.remove());
+        this.append(...nodes);
+    }
+
+    toString(): string {
+        return this.childNodes.join('');
+    }
+}
+
+class ServerFragment extends ServerParent {
+}
+
+class ServerText extends ServerNode {
+    constructor(
+        public data: string) {
+        super();
+    }
+
+    get textContent(): string {
+        return this.data;
+    }
+
+    toString(): string {
+        return escapeHtml(this.data);
+    }
+}
+
+class ServerComment extends ServerNode {
+    get textContent(): string {
+        return '';
+    }
+
+    toString(): string {
+        return '<!---->';
+    }
+}
+
+/** A node that was created with the DOM rather than by rendering, which is only possible in a browser. */
+class ServerMarkup extends ServerNode {
+    constructor(
+        private node: Node) {
+        super();
+    }
+
+    get textContent(): string {
+        return this.node.textContent ?? '';
+    }
+
+    toString(): string {
+        return (this.node as Element).outerHTML ?? escapeHtml(this.textContent);
+    }
+}
+
+class ServerElement extends ServerParent {
+    readonly attributes = new Map<string, string>();
+    readonly styles = new Map<string, string>();
+
+    readonly classList = {
+        toggle: (className: string, on: boolean) => {
+            const classNames = new Set((this.attributes.get('class') ?? '').split(' ').filter(x => x));
+            if (on) {
+                classNames.add(className);
+            }
+            else {
+                classNames.delete(className);
+            }
+            this.setAttribute('class', [...classNames].join(' '));
+            return on;
+        },
+    };
+
+    readonly style = {
+        setProperty: (name: string, value: string) => {
+            this.styles.set(name, value);
+        },
+        removeProperty: (name: string) => {
+            const value = this.styles.get(name) ?? '';
+            this.styles.delete(name);
+            return value;
+        },
+    };
+
+    constructor(
+        readonly tagName: string) {
+        super();
+    }
+
+    get localName(): string {
+        return this.tagName;
+    }
+
+    getAttribute(name: string): string | null {
+        return this.attributes.get(name) ?? null;
+    }
+
+    hasAttribute(name: string): boolean {
+        return this.attributes.has(name);
+    }
+
+    setAttribute(name: string, value: string) {
+        this.attributes.set(name, value);
+    }
+
+    removeAttribute(name: string) {
+        this.attributes.delete(name);
+    }
+
+    addEventListener() {
+        // Events only happen in the browser.
+    }
+
+    removeEventListener() {
+    }
+
+    toString(): string {
+        const attributes = new Map(this.attributes);
+        if (this.styles.size > 0) {
+            const styles = [...this.styles].map(([name, value]) => `${name}: ${value}`);
+            attributes.set('style', [attributes.get('style'), ...styles].filter(x => x).join('; '));
+        }
+
+        let html = '<' + this.tagName;
+        for (const [name, value] of attributes) {
+            html += ` ${name}="${escapeHtml(value)}"`;
+        }
+        html += '>';
+
+        if (!voidElements.has(this.tagName.toLowerCase())) {
+            html += super.toString() + `</${this.tagName}>`;
+        }
+        return html;
+    }
+}
+
+function toServerNode(node: ServerNode | Node | string): ServerNode {
+    return typeof node === 'string' ? new ServerText(node)
+        : node instanceof ServerNode ? node
+        : new ServerMarkup(node);
+}
+
+const entities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' };
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"]/g, x => entities[x]);
+}
+
+/**
+ * Renders to stand-ins for nodes, which support the element methods that rendering uses, such as `setAttribute` and `append`,
+ * but not those that need a browser. Bindings do not subscribe, and promises render as the placeholder that the client fills in.
+ */
+const stringRenderer: Renderer = {
+    live: false,
+    createElement: tagName => new ServerElement(tagName) as unknown as Element,
+    createText: data => new ServerText(data) as unknown as Text,
+    createComment: () => new ServerComment() as unknown as Comment,
+    createFragment: () => new ServerFragment() as unknown as DocumentFragment,
+    isPlaced: () => false,
+};
+
+/**
+ * Renders what {render} returns to HTML, using the current values of the pipes it binds without subscribing to them.
+ * The pipes created while rendering are disposed afterwards. Use {@link hydrate} to bind the HTML in the browser.
+ */
+export function renderToString(render: () => HChild): string {
+    const scope = new Scope();
+    try {
+        return withRenderer(stringRenderer, () => scope.run(() => String(toFragment(render()))));
+    }
+    finally {
+        scope.dispose();
+    }
+}
+
+// Hydration
+
+/**
+ * Renders to the DOM, taking over the nodes of the page rather than creating them where the page already has them.
+ * {@link h} creates the elements it is passed before the element they go in, so which node of the page goes with a node that is
+ * being created cannot be told from what was created so far. So {@link plan} renders once without binding, to find out which node
+ * of the page goes with each node in the order they are created, and the render that binds then takes those nodes in that order.
+ */
+class Hydrator implements Renderer {
+    readonly live = true;
+    private _claims: (Node | undefined)[] = [];
+    private _created = new Set<ServerNode>();
+    private _index = 0;
+    private _placed = new Set<Node>();
+    /** The children of parents that differ from what was rendered, which are rendered again and removed afterwards. */
+    private _stale: ChildNode[] = [];
+
+    constructor(
+        private _report: (mismatch: HydrationMismatch) => void) {
+    }
+
+    /** Renders what {render} returns without binding it, and matches what was rendered with the children of {root}. */
+    plan(root: Node, render: () => HChild): void {
+        const created: ServerNode[] = [];
+        const record = <TNode>(node: ServerNode) => (created.push(node), node as unknown as TNode);
+        const recorder: Renderer = {
+            live: false,
+            createElement: tagName => record(new ServerElement(tagName)),
+            createText: data => record(new ServerText(data)),
+            createComment: () => record(new ServerComment()),
+            createFragment: stringRenderer.createFragment,
+            isPlaced: () => false,
+        };
+
+        const scope = new Scope();
+        try {
+            const fragment = withRenderer(recorder, () => scope.run(() => toFragment(render())));
+            const matches = new Map<ServerNode, Node>();
+            this._created = new Set(created);
+            this.match(fragment as unknown as ServerFragment, root, matches);
+            this._claims = created.map(x => matches.get(x));
+        }
+        finally {
+            scope.dispose();
+            this._created.clear();
+        }
+    }
+
+    createElement(tagName: string, namespace: string | undefined): Element {
+        const claimed = this.claim();
+        return claimed?.nodeType === 1 && (claimed as Element).localName.toLowerCase() === tagName.toLowerCase()
+            ? this.place(claimed as Element)
+            : domRenderer.createElement(tagName, namespace);
+    }
+
+    createText(data: string): Text {
+        const claimed = this.claim();
+        return claimed?.nodeType === 3 ? this.place(claimed as Text) : domRenderer.createText(data);
+    }
+
+    createComment(): Comment {
+        const claimed = this.claim();
+        return claimed?.nodeType === 8 ? this.place(claimed as Comment) : domRenderer.createComment();
+    }
+
+    createFragment(): DocumentFragment {
+        return domRenderer.createFragment();
+    }
+
+    isPlaced(node: Node): boolean {
+        return this._placed.has(node);
+    }
+
+    /** Removes the nodes of the page that were rendered again. */
+    removeStale(): void {
+        this._stale.forEach(x => x.remove());
+        this._stale = [];
+    }
+
+    private claim(): Node | undefined {
+        return this._claims[this._index++];
+    }
+
+    private place<TNode extends Node>(node: TNode): TNode {
+        this._placed.add(node);
+        return node;
+    }
+
+    /**
+     * Matches the children of {planned} with the children of {parent}, and adds the pairs to {matches} if they all match.
+     * Otherwise the differences are reported, and the children of {parent} are left to be rendered again.
+     */
+    private match(planned: ServerParent, parent: Node, matches: Map<ServerNode, Node>): void {
+        const pairs: [ServerNode, Node][] = [];
+        let matched = true;
+        const mismatch = (expected: string, actual: Node | null) => {
+            matched = false;
+            this._report({ expected, actual, parent });
+        };
+
+        const nodes = planned.childNodes;
+        let next = parent.firstChild;
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i];
+            if (node instanceof ServerText) {
+                // Adjacent text is parsed as one node, and some parsers split text into several, so runs of text are matched.
+                const texts: ServerText[] = [];
+                for (; nodes[i] instanceof ServerText; i++) {
+                    texts.push(nodes[i] as ServerText);
+                }
+                i--;
+
+                const found: Text[] = [];
+                for (; next?.nodeType === 3; next = next.nextSibling) {
+                    found.push(next as Text);
+                }
+                const text = texts.map(x => x.data).join('');
+                const foundText = found.map(x => x.data).join('');
+                if (!texts.every(x => this._created.has(x))) {
+                    // Text that was appended with the DOM rather than rendered would be appended again.
+                    matched = false;
+                }
+                else if (text === foundText && text) {
+                    pairs.push(...splitText(found, texts));
+                }
+                // Whitespace around text is often added when HTML is formatted by hand.
+                else if (text.trim() !== foundText.trim() || (text && texts.length > 1)) {
+                    mismatch(JSON.stringify(text), found[0] ?? next);
+                }
+                else if (found.length > 0) {
+                    pairs.push([texts[0], found[0]]);
+                }
+                continue;
+            }
+
+            next = skipWhitespace(next);
+            if (node instanceof ServerElement
+                ? next?.nodeType === 1 && (next as Element).localName.toLowerCase() === node.tagName.toLowerCase()
+                : node instanceof ServerComment && next?.nodeType === 8) {
+                pairs.push([node, next!]);
+            }
+            else if (node instanceof ServerMarkup) {
+                // A node that was passed in rather than rendered cannot be taken from the page, so it goes in again.
+                matched = false;
+            }
+            else {
+                mismatch(describe(node), next);
+            }
+            next = next?.nextSibling ?? null;
+        }
+
+        for (next = skipWhitespace(next); next; next = skipWhitespace(next.nextSibling)) {
+            mismatch('nothing', next);
+        }
+
+        if (!matched) {
+            this._stale.push(...Array.from(parent.childNodes));
+            return;
+        }
+        for (const [node, found] of pairs) {
+            matches.set(node, found);
+            if (node instanceof ServerElement) {
+                this.match(node, found, matches);
+            }
+        }
+    }
+}
+
+/** Splits the run of text {found}, which has the same text as {texts}, into a node for each of them. */
+function splitText(found: Text[], texts: ServerText[]): [ServerText, Text][] {
+    const [text, ...rest] = found;
+    rest.forEach(x => {
+        text.appendData(x.data);
+        x.remove();
+    });
+
+    const pairs: [ServerText, Text][] = [];
+    let remaining = text;
+    for (const x of texts) {
+        // Empty text is not in the HTML at all, so it is created.
+        if (x.data) {
+            const after = remaining.data.length > x.data.length ? remaining.splitText(x.data.length) : remaining;
+            pairs.push([x, remaining]);
+            remaining = after;
+        }
+    }
+    return pairs;
+}
+
+/** Skips whitespace between elements, which is often added when HTML is formatted by hand. */
+function skipWhitespace(node: ChildNode | null): ChildNode | null {
+    while (node?.nodeType === 3 && !(node as Text).data.trim()) {
+        node = node.nextSibling;
+    }
+    return node;
+}
+
+function describe(node: ServerNode): string {
+    return node instanceof ServerElement ? `<${node.localName}>`
+        : node instanceof ServerText ? JSON.stringify(node.data)
+        : String(node);
+}
+
+/**
+ * Binds the HTML in {root}, which {@link renderToString} rendered from the same {render} function, taking over its nodes
+ * rather than creating new ones, so that they keep focus, scroll position and what the user typed. {render} is called twice,
+ * first without binding to find out which node of the HTML goes with each node it renders. Where the HTML differs, the
+ * difference is reported to {onMismatch}, which warns by default, and the children of that parent are rendered again.
+ * Disposing the returned scope empties {root}.
+ */
+export function hydrate(
+    root: Node & ParentNode,
+    render: () => HChild,
+    options?: { onMismatch?: (mismatch: HydrationMismatch) => void }
+): Scope {
+    const onMismatch = options?.onMismatch
+        ?? (mismatch => console.warn(`Hydration mismatch: expected ${mismatch.expected} but found`, mismatch.actual, 'in', mismatch.parent));
+
+    const hydrator = new Hydrator(onMismatch);
+    hydrator.plan(root, render);
+    return Pipe.scope(scope => {
+        scope.add({ dispose: () => root.replaceChildren() });
+
+        // The fragment only has the nodes that were rendered again.
+        root.append(withRenderer(hydrator, () => toFragment(render())));
+        hydrator.removeStale();
+    });
+}
@@ -0,0 +1,69 @@
+import type { Pipe } from './Pipe';
+
+/** The base class of errors thrown by pipes. */
+export class PipeError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/** Thrown when a pipe is used after it was disposed. */
+export class PipeDisposedError extends PipeError {
+    constructor(
+        public readonly pipe: Pipe<any>,
+        action: string) {
+        super(`Cannot ${action} ${pipe} because it has been disposed.`);
+    }
+}
+
+/** Thrown when the same listener subscribes to a pipe twice. */
+export class DuplicateSubscriptionError extends PipeError {
+    constructor(
+        public readonly listener: (source: Pipe<any>) => void) {
+        super('The listener has already subscribed. Was this intentional?');
+    }
+}
+
+/** Thrown when an array operator is used on a pipe whose value is not an array. */
+export class NotAnArrayError extends PipeError {
+    constructor(
+        public readonly value: unknown) {
+        super(`The value must be an array, but is ${typeof value}.`);
+    }
+}
+
+/** Thrown when a single item was expected but there were none or several. */
+export class SingleItemError extends PipeError {
+    constructor(
+        public readonly count: number) {
+        super(count === 0 ? 'The array has no items.' : 'The array has more than one item.');
+    }
+}
+
+/**
+ * Thrown after a notification when one or more listeners threw. Every other listener was still notified.
+ * When a timer, event or promise caused the notification, it is reported through `Pipe.onUnhandledError` instead.
+ */
+export class ListenerError extends PipeError {
+    constructor(
+        public readonly errors: unknown[]) {
+        super(errors.length === 1 ? 'A listener threw an error.' : `${errors.length} listeners threw errors.`, { cause: errors[0] });
+    }
+}
+
+/** Thrown when a state is registered under a name that is already taken. */
+export class DuplicateStateError extends PipeError {
+    constructor(
+        public readonly stateName: string) {
+        super(`A state named '${stateName}' has already been registered.`);
+    }
+}
+
+/** Thrown when two items of a keyed list have the same key. */
+export class DuplicateKeyError extends PipeError {
+    constructor(
+        public readonly key: unknown) {
+        super(`More than one item has the key ${String(key)}.`);
+    }
+}
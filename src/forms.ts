@@ -0,0 +1,307 @@
+import { AsyncPipe, Pipe, PipeArray, PipeComputed, State } from './Pipe';
+import { StateArray } from './StateArray';
+
+/** Returns an error message if {value} is invalid. */
+export type Validator<T> = (value: T) => string | undefined;
+
+/** Resolves to an error message if {value} is invalid. {signal} is aborted when the value changes before it resolves. */
+export type AsyncValidator<T> = (value: T, signal: AbortSignal) => Promise<string | undefined>;
+
+/** The validity and interaction state shared by fields, forms and field arrays. */
+export interface FormControl<T> extends Pipe<T> {
+    /** The errors of this control's own validators. */
+    readonly errors: Pipe<string[]>;
+    /** Whether this control and every control in it have no errors and no pending validation. */
+    readonly isValid: Pipe<boolean>;
+    readonly isDirty: Pipe<boolean>;
+    readonly isTouched: Pipe<boolean>;
+    readonly isValidating: Pipe<boolean>;
+
+    /** Marks this control and every control in it as touched, as when the user leaves an input. */
+    touch(): void;
+
+    /** Restores the initial value, and marks this control as untouched. */
+    reset(): void;
+}
+
+export type ControlValue<TControl> = TControl extends FormControl<infer T> ? T : never;
+
+export type FormFields = Record<string, FormControl<any>>;
+
+export type FormValue<TFields extends FormFields> = { [K in keyof TFields]: ControlValue<TFields[K]> };
+
+/** A writable field that validates its value, and tracks whether it was changed and touched. */
+export class FieldState<T> extends State<T> implements FormControl<T> {
+    private _initial: State<T>;
+    private _touched = Pipe.unscoped(() => new State(false));
+    private _syncErrors: Pipe<string[]>;
+    private _asyncErrors?: AsyncPipe<string[]>;
+
+    readonly errors: Pipe<string[]>;
+    readonly isValid: Pipe<boolean>;
+    readonly isDirty: Pipe<boolean>;
+    readonly isValidating: Pipe<boolean>;
+
+    /**
+     * Async validators only run once the sync validators pass, and run again whenever the value changes.
+     * While they are pending the field is not valid.
+     */
+    constructor(value: T, options?: { validators?: Validator<T>[], asyncValidators?: AsyncValidator<T>[] }) {
+        super(value);
+        this._initial = Pipe.unscoped(() => new State(value));
+
+        const validators = options?.validators ?? [];
+        const asyncValidators = options?.asyncValidators ?? [];
+
+        // Our pipes are disposed with us, not with the current scope.
+        const syncErrors = this._syncErrors = Pipe.unscoped(() => this.project(x => errorsOf(validators.map(validate => validate(x)))));
+
+        if (asyncValidators.length > 0) {
+            this._asyncErrors = Pipe.unscoped(() => this.projectAsync(async (x, signal) => {
+                if (Pipe.untracked(() => syncErrors.value).length > 0) {
+                    return [];
+                }
+                return errorsOf(await Promise.all(asyncValidators.map(validate => validate(x, signal))));
+            }));
+        }
+
+        this.errors = Pipe.unscoped(() => Pipe.computed(() => {
+            const asyncErrors = this._asyncErrors;
+            switch (asyncErrors?.status) {
+                case 'resolved':
+                    return [...syncErrors.value, ...asyncErrors.value!];
+                case 'error':
+                    return [...syncErrors.value, messageOf(asyncErrors.error)];
+                default:
+                    return syncErrors.value;
+            }
+        }));
+        this.isValidating = Pipe.unscoped(() => Pipe.computed(() => this._asyncErrors?.status === 'pending'));
+        this.isValid = Pipe.unscoped(() => Pipe.computed(() => this.errors.value.length === 0 && !this.isValidating.value));
+        this.isDirty = Pipe.unscoped(() => Pipe.computed(() => this.value !== this._initial.value));
+    }
+
+    get isTouched(): Pipe<boolean> {
+        return this._touched;
+    }
+
+    /** Returns the value that {isDirty} compares against. */
+    get initialValue(): T {
+        return this._initial.value;
+    }
+
+    touch(): void {
+        this._touched.value = true;
+    }
+
+    /** Restores the initial value, or makes {value} the initial and current value, and marks this field as untouched. */
+    reset(value: T = this._initial.value): void {
+        Pipe.batch(() => {
+            this._initial.value = value;
+            this.value = value;
+            this._touched.value = false;
+        });
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this.isValid.dispose();
+        this.isDirty.dispose();
+        this.isValidating.dispose();
+        this.errors.dispose();
+        this._asyncErrors?.dispose();
+        this._syncErrors.dispose();
+        this._touched.dispose();
+        this._initial.dispose();
+    }
+}
+
+/** A group of named fields, forms and field arrays, whose value is an object of their values. */
+export class FormState<TFields extends FormFields> extends PipeComputed<FormValue<TFields>> implements FormControl<FormValue<TFields>> {
+    private _submitting = Pipe.unscoped(() => new State(false));
+
+    readonly fields: TFields;
+    readonly errors: Pipe<string[]>;
+    readonly isValid: Pipe<boolean>;
+    readonly isDirty: Pipe<boolean>;
+    readonly isTouched: Pipe<boolean>;
+    readonly isValidating: Pipe<boolean>;
+
+    /** The form owns {fields}, and disposes them when it is disposed. {validators} check the value of the whole form. */
+    constructor(fields: TFields, options?: { validators?: Validator<FormValue<TFields>>[] }) {
+        super(() => {
+            const value: Record<string, unknown> = {};
+            for (const key in fields) {
+                value[key] = fields[key].value;
+            }
+            return value as FormValue<TFields>;
+        });
+        this.fields = fields;
+
+        const validators = options?.validators ?? [];
+        const controls = Object.values(fields);
+        // Our pipes are disposed with us, not with the current scope.
+        this.errors = Pipe.unscoped(() => this.project(x => errorsOf(validators.map(validate => validate(x)))));
+        this.isValid = Pipe.unscoped(() => Pipe.computed(() => this.errors.value.length === 0 && controls.every(x => x.isValid.value)));
+        this.isDirty = Pipe.unscoped(() => Pipe.computed(() => controls.some(x => x.isDirty.value)));
+        this.isTouched = Pipe.unscoped(() => Pipe.computed(() => controls.some(x => x.isTouched.value)));
+        this.isValidating = Pipe.unscoped(() => Pipe.computed(() => controls.some(x => x.isValidating.value)));
+    }
+
+    /** Whether {submit} is waiting for validation or for its handler. */
+    get isSubmitting(): Pipe<boolean> {
+        return this._submitting;
+    }
+
+    touch(): void {
+        Pipe.batch(() => Object.values(this.fields).forEach(x => x.touch()));
+    }
+
+    reset(): void {
+        Pipe.batch(() => Object.values(this.fields).forEach(x => x.reset()));
+    }
+
+    /**
+     * Touches every field so that their errors show, waits for pending validation,
+     * and then calls {handler} with the value if the form is valid.
+     * Returns what {handler} returns, or undefined if the form is invalid.
+     */
+    async submit<R>(handler: (value: FormValue<TFields>) => R | Promise<R>): Promise<R | undefined> {
+        this.touch();
+        this._submitting.value = true;
+        try {
+            await until(this.isValidating, x => !x);
+            if (!this.isValid.value) {
+                return undefined;
+            }
+            return await handler(this.value);
+        }
+        finally {
+            if (!this.isDisposed) {
+                this._submitting.value = false;
+            }
+        }
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this.isValidating.dispose();
+        this.isTouched.dispose();
+        this.isDirty.dispose();
+        this.isValid.dispose();
+        this.errors.dispose();
+        this._submitting.dispose();
+        Object.values(this.fields).forEach(x => x.dispose());
+    }
+}
+
+/** A list of fields or forms that can grow and shrink, whose value is an array of their values. */
+export class FieldArray<TControl extends FormControl<any>> extends PipeComputed<ControlValue<TControl>[]> implements FormControl<ControlValue<TControl>[]> {
+    private _controls: StateArray<TControl>;
+    private _initialControls: State<TControl[]>;
+
+    readonly errors: Pipe<string[]>;
+    readonly isValid: Pipe<boolean>;
+    readonly isDirty: Pipe<boolean>;
+    readonly isTouched: Pipe<boolean>;
+    readonly isValidating: Pipe<boolean>;
+
+    /** The array owns its controls, and disposes them when they are removed. {validators} check the array of values. */
+    constructor(controls: Iterable<TControl> = [], options?: { validators?: Validator<ControlValue<TControl>[]>[] }) {
+        const items = Pipe.unscoped(() => new StateArray(controls));
+        super(() => items.value.map(x => x.value));
+        this._controls = items;
+        this._initialControls = Pipe.unscoped(() => new State(Pipe.untracked(() => items.value)));
+
+        const validators = options?.validators ?? [];
+        // Our pipes are disposed with us, not with the current scope.
+        this.errors = Pipe.unscoped(() => this.project(x => errorsOf(validators.map(validate => validate(x)))));
+        this.isValid = Pipe.unscoped(() => Pipe.computed(() => this.errors.value.length === 0 && items.value.every(x => x.isValid.value)));
+        this.isDirty = Pipe.unscoped(() => Pipe.computed(() => {
+            const initial = this._initialControls.value;
+            return items.value.length !== initial.length
+                || items.value.some((x, i) => x !== initial[i] || x.isDirty.value);
+        }));
+        this.isTouched = Pipe.unscoped(() => Pipe.computed(() => items.value.some(x => x.isTouched.value)));
+        this.isValidating = Pipe.unscoped(() => Pipe.computed(() => items.value.some(x => x.isValidating.value)));
+    }
+
+    get controls(): PipeArray<TControl> {
+        return this._controls;
+    }
+
+    push(...controls: TControl[]): void {
+        this._controls.push(...controls);
+    }
+
+    insert(index: number, ...controls: TControl[]): void {
+        this._controls.insert(index, ...controls);
+    }
+
+    /** Removes and disposes the control at {index}. */
+    removeAt(index: number): void {
+        this._controls.removeAt(index).dispose();
+    }
+
+    move(from: number, to: number): void {
+        this._controls.move(from, to);
+    }
+
+    touch(): void {
+        Pipe.batch(() => Pipe.untracked(() => this._controls.value).forEach(x => x.touch()));
+    }
+
+    /** Resets every control. Removed controls were disposed, so the current controls become the initial ones. */
+    reset(): void {
+        Pipe.batch(() => {
+            const controls = Pipe.untracked(() => this._controls.value);
+            this._initialControls.value = controls;
+            controls.forEach(x => x.reset());
+        });
+    }
+
+    dispose(): void {
+        if (this.isDisposed) {
+            return;
+        }
+        super.dispose();
+        this.isValidating.dispose();
+        this.isTouched.dispose();
+        this.isDirty.dispose();
+        this.isValid.dispose();
+        this.errors.dispose();
+        Pipe.untracked(() => this._controls.value).forEach(x => x.dispose());
+        this._controls.dispose();
+        this._initialControls.dispose();
+    }
+}
+
+function errorsOf(results: (string | undefined)[]): string[] {
+    return results.filter((x): x is string => !!x);
+}
+
+function messageOf(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/** Resolves once {predicate} is true of the value of {pipe}. */
+function until<T>(pipe: Pipe<T>, predicate: (value: T) => boolean): Promise<void> {
+    return new Promise(resolve => {
+        if (predicate(pipe.value)) {
+            resolve();
+            return;
+        }
+        const token = pipe.subscribe(() => {
+            if (predicate(pipe.value)) {
+                pipe.unsubscribe(token);
+                resolve();
+            }
+        });
+    });
+}
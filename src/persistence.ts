@@ -0,0 +1,245 @@
+import { DuplicateStateError, PipeError } from './errors';
+import { Pipe, State } from './Pipe';
+import type { StateArray } from './StateArray';
+import type { StateObject } from './StateObject';
+
+export type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+/** A writable pipe that can be registered with a {@link StateRegistry}. */
+export type PersistentState = State<any> | StateArray<any> | StateObject<any>;
+
+/** Converts values that JSON cannot represent, such as dates, to and from JSON. */
+export interface Codec<T> {
+    /** Identifies the codec in encoded values, so it must not change once values are persisted. */
+    readonly type: string;
+    test(value: unknown): value is T;
+    encode(value: T): Json;
+    decode(json: Json): T;
+}
+
+export const dateCodec: Codec<Date> = {
+    type: 'Date',
+    test: (value): value is Date => value instanceof Date,
+    encode: value => value.toISOString(),
+    decode: json => new Date(json as string),
+};
+
+/** Where a {@link StateRegistry} saves its snapshots. Adapters may be asynchronous. */
+export interface StorageAdapter {
+    read(key: string): string | undefined | Promise<string | undefined>;
+    write(key: string, value: string): void | Promise<void>;
+    remove(key: string): void | Promise<void>;
+}
+
+/** Keeps snapshots in memory, which is useful for tests and for passing state between server and client code in one process. */
+export class MemoryStorage implements StorageAdapter {
+    private _items = new Map<string, string>();
+
+    read(key: string) {
+        return this._items.get(key);
+    }
+
+    write(key: string, value: string) {
+        this._items.set(key, value);
+    }
+
+    remove(key: string) {
+        this._items.delete(key);
+    }
+}
+
+/** Keeps snapshots in `localStorage`, or another Web Storage such as `sessionStorage`. */
+export class LocalStorage implements StorageAdapter {
+    constructor(
+        private storage: Storage = localStorage) {
+    }
+
+    read(key: string) {
+        return this.storage.getItem(key) ?? undefined;
+    }
+
+    write(key: string, value: string) {
+        this.storage.setItem(key, value);
+    }
+
+    remove(key: string) {
+        this.storage.removeItem(key);
+    }
+}
+
+/**
+ * A set of named states whose values can be saved as plain JSON and restored later,
+ * for example across page reloads or from a server-rendered page to the client.
+ */
+export class StateRegistry {
+    private _states = new Map<string, PersistentState>();
+    private _codecs: Codec<any>[];
+    private _listeners = new Set<(name: string, state: PersistentState) => void>();
+
+    constructor(options?: { codecs?: Codec<any>[] }) {
+        this._codecs = options?.codecs ?? [dateCodec];
+    }
+
+    /** Registers {state} under {name}, until it is disposed or unregistered, and returns it. */
+    register<TState extends PersistentState>(name: string, state: TState): TState {
+        if (this._states.has(name)) {
+            throw new DuplicateStateError(name);
+        }
+        this._states.set(name, state);
+        state.onDispose(() => {
+            if (this._states.get(name) === state) {
+                this._states.delete(name);
+            }
+        });
+        this._listeners.forEach(listener => listener(name, state));
+        return state;
+    }
+
+    unregister(name: string): void {
+        this._states.delete(name);
+    }
+
+    /** Returns the state registered under {name}, if any. */
+    get(name: string): PersistentState | undefined {
+        return this._states.get(name);
+    }
+
+    /** Returns the values of the registered states as plain JSON. */
+    snapshot(): Record<string, Json> {
+        return Pipe.untracked(() => {
+            const snapshot: Record<string, Json> = {};
+            for (const [name, state] of this._states) {
+                snapshot[name] = this.encode(state.value);
+            }
+            return snapshot;
+        });
+    }
+
+    /**
+     * Writes the values in {snapshot} to the registered states, notifying listeners once after every state was written.
+     * Values of states that are not registered are ignored. If a value cannot be decoded no state is written.
+     */
+    restore(snapshot: Record<string, Json>): void {
+        const values = Object.entries(snapshot)
+            .filter(([name]) => this._states.has(name))
+            .map(([name, json]) => [this._states.get(name)!, this.decode(json)] as const);
+
+        Pipe.transaction(() => {
+            for (const [state, value] of values) {
+                state.value = value;
+            }
+        });
+    }
+
+    /** Saves a snapshot to {storage} under {key}. */
+    async save(storage: StorageAdapter, key: string): Promise<void> {
+        await storage.write(key, JSON.stringify(this.snapshot()));
+    }
+
+    /** Restores the snapshot saved to {storage} under {key}, and returns whether there was one. */
+    async load(storage: StorageAdapter, key: string): Promise<boolean> {
+        const text = await storage.read(key);
+        if (text === undefined) {
+            return false;
+        }
+        this.restore(JSON.parse(text));
+        return true;
+    }
+
+    /**
+     * Loads the snapshot saved to {storage} under {key}, then saves a new snapshot whenever a registered state changes,
+     * at most once per microtask. Saves that fail are reported to {onError}, which logs them by default, and the next change is saved again.
+     * Returns a function that stops saving.
+     */
+    async persist(
+        storage: StorageAdapter,
+        key: string,
+        options?: { onError?: (error: unknown) => void }
+    ): Promise<() => void> {
+        const onError = options?.onError ?? (error => console.error(`Saving '${key}' failed:`, error));
+        await this.load(storage, key);
+
+        let saving = false;
+        const save = () => {
+            if (!saving) {
+                saving = true;
+                queueMicrotask(() => {
+                    saving = false;
+                    if (subscriptions) {
+                        this.save(storage, key).catch(onError);
+                    }
+                });
+            }
+        };
+
+        let subscriptions: Map<PersistentState, number> | undefined = new Map();
+        const subscribe = (_: string, state: PersistentState) => {
+            if (!subscriptions!.has(state)) {
+                subscriptions!.set(state, state.subscribe(save));
+            }
+        };
+        this._states.forEach((state, name) => subscribe(name, state));
+        this._listeners.add(subscribe);
+
+        return () => {
+            if (subscriptions) {
+                this._listeners.delete(subscribe);
+                subscriptions.forEach((token, state) => {
+                    if (!state.isDisposed) {
+                        state.unsubscribe(token);
+                    }
+                });
+                subscriptions = undefined;
+            }
+        };
+    }
+
+    private encode(value: unknown): Json {
+        const codec = this._codecs.find(x => x.test(value));
+        if (codec) {
+            return { $type: codec.type, value: codec.encode(value) };
+        }
+        if (Array.isArray(value)) {
+            return value.map(x => this.encode(x));
+        }
+        if (value !== null && typeof value === 'object') {
+            const json: Record<string, Json> = {};
+            for (const [key, item] of Object.entries(value)) {
+                if (item !== undefined) {
+                    json[key] = this.encode(item);
+                }
+            }
+            // Escape objects that would otherwise be mistaken for encoded values.
+            return '$type' in json ? { $type: 'Object', value: json } : json;
+        }
+        return value === undefined ? null : value as Json;
+    }
+
+    private decode(json: Json): any {
+        if (Array.isArray(json)) {
+            return json.map(x => this.decode(x));
+        }
+        if (json !== null && typeof json === 'object') {
+            if (typeof json.$type === 'string') {
+                if (json.$type === 'Object') {
+                    return this.decodeProperties(json.value as Record<string, Json>);
+                }
+                const codec = this._codecs.find(x => x.type === json.$type);
+                if (!codec) {
+                    throw new PipeError(`There is no codec for '${json.$type}'.`);
+                }
+                return codec.decode(json.value);
+            }
+            return this.decodeProperties(json);
+        }
+        return json;
+    }
+
+    private decodeProperties(json: Record<string, Json>): Record<string, unknown> {
+        const value: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(json)) {
+            value[key] = this.decode(item);
+        }
+        return value;
+    }
+}
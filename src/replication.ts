@@ -0,0 +1,383 @@
+import { DuplicateStateError } from './errors';
+import { ArrayChange, Pipe, PipeArray, Scope, State } from './Pipe';
+import { StateArray } from './StateArray';
+import type { StateObject } from './StateObject';
+
+/** A writable pipe that a {@link Replicator} can share. */
+export type ReplicatedState = State<any> | StateArray<any> | StateObject<any>;
+
+/**
+ * Anything messages can be posted to and received from, such as a `MessagePort`, a `BroadcastChannel`,
+ * a `Worker`, or the global scope inside a worker. Messages must survive the structured clone algorithm.
+ */
+export interface ReplicationPort {
+    postMessage(message: any): void;
+    addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+    removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+    /** Ports that queue messages until they are started, such as `MessagePort`, are started by the replicator. */
+    start?(): void;
+}
+
+/** A new value, or the changes made to an array. */
+type Delta =
+    | { value: any }
+    | { changes: ArrayChange<any>[] };
+
+type ReplicationMessage = { $replication: string } & (
+    /** Asks the primary for a snapshot. */
+    | { type: 'hello', origin: string }
+    /** The primary's value, sent to every replica, or to {to} when the write of its {epoch} was rejected. */
+    | { type: 'snapshot', version: number, value: any, to?: string, epoch?: number }
+    /** A change to the primary, which was written by the replica {origin} if there is one. */
+    | { type: 'change', version: number, origin?: string } & Delta
+    /** A change to a replica, made when it had caught up with version {base} of the primary. */
+    | { type: 'write', origin: string, epoch: number, base: number } & Delta
+);
+
+interface Shared {
+    state: ReplicatedState;
+    version: number;
+    /** The last value sent, or the version of an array state. */
+    sent: any;
+    /** The epoch of the last rejected write of each replica, whose later writes in the same epoch are dropped. */
+    rejected: Map<string, number>;
+    /** The replica whose write is being applied. */
+    writer?: string;
+    token: number;
+}
+
+interface Replica {
+    state: State<any> | StateArray<any>;
+    writable: boolean;
+    /** The version of the primary that the replica has caught up with, or -1 before the first snapshot. */
+    version: number;
+    /** The number of writes that the primary has not yet acknowledged. */
+    pending: number;
+    /** Counts the times the replica was reset because the primary rejected a write. */
+    epoch: number;
+    /** The last value received or sent, or the version of an array replica. */
+    synced: any;
+    /** Whether a change from the primary is being applied, which must not be sent back. */
+    applying: boolean;
+    token: number;
+}
+
+let nextOrigin = 1;
+
+/**
+ * Replicates states between contexts that can only post messages to each other, such as a page and its workers, or tabs.
+ * One side shares a state under a name, and the other sides create replicas of it under the same name.
+ * Replicas receive a snapshot when they are created, and then only the changes; array states send the changes made to their items.
+ *
+ * Writes to a writable replica show immediately, and are sent to the side that shares the state, which orders every write.
+ * A write is only accepted if it was made on the shared state's latest value; otherwise it is dropped, along with later writes
+ * from the same replica, and the replica is reset to the shared state's value. So when writes conflict, the first to reach
+ * the shared state wins.
+ */
+export class Replicator {
+    private _port: ReplicationPort;
+    private _origin = `${nextOrigin++}:${Math.random().toString(36).slice(2)}`;
+    private _shared = new Map<string, Shared>();
+    private _replicas = new Map<string, Replica>();
+    private _listener = (event: MessageEvent) => this.receive(event.data);
+    private _disposed = false;
+
+    /** The replicator stops when the current scope is disposed, if there is one. */
+    constructor(port: ReplicationPort) {
+        this._port = port;
+        port.addEventListener('message', this._listener);
+        port.start?.();
+        Scope.current?.add(this);
+    }
+
+    /** Shares {state} under {name}, until it is disposed or unshared, and returns it. */
+    share<TState extends ReplicatedState>(name: string, state: TState): TState {
+        this.assertAvailable(name);
+
+        const shared: Shared = {
+            state,
+            version: 0,
+            sent: this.current(state),
+            rejected: new Map(),
+            token: state.subscribe(() => this.sendChange(name, shared)),
+        };
+        this._shared.set(name, shared);
+        state.onDispose(() => {
+            if (this._shared.get(name) === shared) {
+                this.unshare(name);
+            }
+        });
+
+        // Replicas that were created before us are waiting for a snapshot.
+        this.sendSnapshot(name, shared);
+        return state;
+    }
+
+    /** Stops sharing the state shared under {name}. Its replicas keep their values. */
+    unshare(name: string): void {
+        const shared = this._shared.get(name);
+        if (shared) {
+            this._shared.delete(name);
+            shared.state.unsubscribe(shared.token);
+        }
+    }
+
+    /** Creates a read-only replica of the state shared under {name}, whose value is {initial} until the first snapshot arrives. */
+    replica<T>(name: string, initial: T): Pipe<T>;
+    /** Creates a writable replica of the state shared under {name}. Writes made before the first snapshot arrives are dropped. */
+    replica<T>(name: string, initial: T, options: { writable: true }): State<T>;
+    replica<T>(name: string, initial: T, options?: { writable?: boolean }): State<T> {
+        return this.createReplica(name, new State(initial), options?.writable ?? false);
+    }
+
+    /** Creates a read-only replica of the array state shared under {name}. */
+    arrayReplica<TItem>(name: string): PipeArray<TItem>;
+    /** Creates a writable replica of the array state shared under {name}. Writes made before the first snapshot arrives are dropped. */
+    arrayReplica<TItem>(name: string, options: { writable: true }): StateArray<TItem>;
+    arrayReplica<TItem>(name: string, options?: { writable?: boolean }): StateArray<TItem> {
+        return this.createReplica(name, new StateArray<TItem>(), options?.writable ?? false);
+    }
+
+    /** Stops replicating. Shared states and replicas keep their values. */
+    dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+
+        this._port.removeEventListener('message', this._listener);
+        [...this._shared.keys()].forEach(name => this.unshare(name));
+        [...this._replicas.keys()].forEach(name => this.removeReplica(name));
+    }
+
+    private createReplica<TState extends State<any> | StateArray<any>>(name: string, state: TState, writable: boolean): TState {
+        this.assertAvailable(name);
+
+        const replica: Replica = {
+            state,
+            writable,
+            version: -1,
+            pending: 0,
+            epoch: 0,
+            synced: this.current(state),
+            applying: false,
+            token: state.subscribe(() => this.sendWrite(name, replica)),
+        };
+        this._replicas.set(name, replica);
+        state.onDispose(() => {
+            if (this._replicas.get(name) === replica) {
+                this.removeReplica(name);
+            }
+        });
+
+        this.post({ $replication: name, type: 'hello', origin: this._origin });
+        return state;
+    }
+
+    private removeReplica(name: string) {
+        const replica = this._replicas.get(name);
+        if (replica) {
+            this._replicas.delete(name);
+            replica.state.unsubscribe(replica.token);
+        }
+    }
+
+    private assertAvailable(name: string) {
+        if (this._shared.has(name) || this._replicas.has(name)) {
+            throw new DuplicateStateError(name);
+        }
+    }
+
+    private receive(message: ReplicationMessage) {
+        const name = message?.$replication;
+        if (typeof name !== 'string') {
+            return;
+        }
+
+        const shared = this._shared.get(name);
+        if (shared) {
+            switch (message.type) {
+                case 'hello':
+                    this.sendSnapshot(name, shared, message.origin);
+                    break;
+                case 'write':
+                    this.acceptWrite(name, shared, message);
+                    break;
+            }
+            return;
+        }
+
+        const replica = this._replicas.get(name);
+        if (replica) {
+            switch (message.type) {
+                case 'snapshot':
+                    this.receiveSnapshot(replica, message);
+                    break;
+                case 'change':
+                    this.receiveChange(name, replica, message);
+                    break;
+            }
+        }
+    }
+
+    // The shared side
+
+    private sendSnapshot(name: string, shared: Shared, to?: string, epoch?: number) {
+        this.post({
+            $replication: name,
+            type: 'snapshot',
+            version: shared.version,
+            value: Pipe.untracked(() => shared.state.value),
+            to,
+            epoch,
+        });
+    }
+
+    private sendChange(name: string, shared: Shared) {
+        const delta = this.delta(shared.state, shared.sent);
+        if (!delta) {
+            return;
+        }
+        shared.sent = this.current(shared.state);
+        shared.version++;
+        this.post({ $replication: name, type: 'change', version: shared.version, origin: shared.writer, ...delta });
+    }
+
+    private acceptWrite(name: string, shared: Shared, message: Extract<ReplicationMessage, { type: 'write' }>) {
+        const rejected = shared.rejected.get(message.origin);
+        if (rejected !== undefined && message.epoch <= rejected) {
+            // The replica is already being reset.
+            return;
+        }
+
+        if (message.base !== shared.version) {
+            shared.rejected.set(message.origin, message.epoch);
+            this.sendSnapshot(name, shared, message.origin, message.epoch);
+            return;
+        }
+
+        // Our listener sends the change, saying which replica wrote it.
+        shared.writer = message.origin;
+        try {
+            this.apply(shared.state, message);
+        }
+        finally {
+            shared.writer = undefined;
+        }
+    }
+
+    // The replica side
+
+    private receiveSnapshot(replica: Replica, message: Extract<ReplicationMessage, { type: 'snapshot' }>) {
+        if (message.to !== undefined && message.to !== this._origin) {
+            return;
+        }
+
+        if (message.epoch !== undefined) {
+            // A write was rejected, so the writes after it will be dropped too.
+            if (message.epoch !== replica.epoch) {
+                return;
+            }
+            replica.epoch++;
+            replica.pending = 0;
+        }
+        else if (replica.pending > 0 || message.version <= replica.version) {
+            // Our writes are on their way, and will be acknowledged or rejected.
+            return;
+        }
+
+        replica.version = message.version;
+        this.applyToReplica(replica, { value: message.value });
+    }
+
+    private receiveChange(name: string, replica: Replica, message: Extract<ReplicationMessage, { type: 'change' }>) {
+        if (message.origin === this._origin) {
+            // We made this change already.
+            replica.pending--;
+            replica.version = message.version;
+        }
+        else if (replica.pending > 0) {
+            // Our writes were made before this change, so they will be rejected and we will be reset.
+        }
+        else if (message.version !== replica.version + 1) {
+            // We missed a change, or have not had the first snapshot yet.
+            if (replica.version >= 0) {
+                this.post({ $replication: name, type: 'hello', origin: this._origin });
+            }
+        }
+        else {
+            replica.version = message.version;
+            this.applyToReplica(replica, message);
+        }
+    }
+
+    private sendWrite(name: string, replica: Replica) {
+        if (replica.applying) {
+            return;
+        }
+        const delta = this.delta(replica.state, replica.synced);
+        if (!delta) {
+            return;
+        }
+        replica.synced = this.current(replica.state);
+
+        if (replica.writable) {
+            this.post({
+                $replication: name,
+                type: 'write',
+                origin: this._origin,
+                epoch: replica.epoch,
+                base: replica.version + replica.pending,
+                ...delta,
+            });
+            replica.pending++;
+        }
+    }
+
+    private applyToReplica(replica: Replica, delta: Delta) {
+        replica.applying = true;
+        try {
+            this.apply(replica.state, delta);
+        }
+        finally {
+            replica.applying = false;
+            replica.synced = this.current(replica.state);
+        }
+    }
+
+    // Both sides
+
+    /** Returns the value of {state}, or the version of an array state, to compare with later. */
+    private current(state: ReplicatedState): any {
+        return state instanceof StateArray
+            ? state.version
+            : Pipe.untracked(() => state.value);
+    }
+
+    /** Returns what changed since {since} was current, or undefined if nothing did. */
+    private delta(state: ReplicatedState, since: any): Delta | undefined {
+        if (state instanceof StateArray) {
+            const changes = state.changesSince(since);
+            if (!changes) {
+                // The array has forgotten how it changed, for example because a transaction was rolled back.
+                return { value: Pipe.untracked(() => state.value) };
+            }
+            return changes.length > 0 ? { changes } : undefined;
+        }
+        const value = Pipe.untracked(() => state.value);
+        return value !== since ? { value } : undefined;
+    }
+
+    private apply(state: ReplicatedState, delta: Delta) {
+        if ('changes' in delta) {
+            (state as StateArray<any>).replay(delta.changes);
+        }
+        else {
+            state.value = delta.value;
+        }
+    }
+
+    private post(message: ReplicationMessage) {
+        this._port.postMessage(message);
+    }
+}
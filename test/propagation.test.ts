@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { ListenerError, Pipe, State, StateArray } from '../index';
+
+describe('propagation', () => {
+    it('notifies each listener once per write, after every pipe it reads is up to date', () => {
+        const a = new State(1);
+        const b = a.project(x => x * 10);
+        const c = a.project(x => x + 1);
+        const sum = Pipe.computed(() => b.value + c.value);
+        const seen: number[] = [];
+        sum.subscribe(() => seen.push(sum.value));
+
+        a.value = 2;
+
+        expect(seen).toEqual([23]);
+    });
+
+    it('notifies sources before the pipes that depend on them', () => {
+        const a = new State(1);
+        const b = a.project(x => x * 2);
+        const c = b.project(x => x + 1);
+        const order: string[] = [];
+        c.subscribe(() => order.push('c'));
+        a.subscribe(() => order.push('a'));
+        b.subscribe(() => order.push('b'));
+
+        a.value = 2;
+
+        expect(order).toEqual(['a', 'b', 'c']);
+    });
+
+    it('does not notify dependants of a pipe whose value did not change', () => {
+        const a = new State(1);
+        const parity = a.project(x => x % 2).distinctUntilChanged();
+        const label = parity.project(x => (x ? 'odd' : 'even'));
+        let notified = 0;
+        label.subscribe(() => notified++);
+
+        a.value = 3;
+        expect(notified).toBe(0);
+
+        a.value = 4;
+        expect(notified).toBe(1);
+        expect(label.value).toBe('even');
+    });
+
+    it('only notifies element pipes when the selected element changes', () => {
+        const items = new StateArray([1, 2]);
+        const first = items.first();
+        items.insert(0, 0);
+        let notified = 0;
+        first.subscribe(() => notified++);
+        expect(first.value).toBe(0);
+
+        items.push(9);
+        expect(notified).toBe(0);
+
+        items.insert(0, -1);
+        expect(notified).toBe(1);
+        expect(first.value).toBe(-1);
+    });
+
+    it('runs writes made by listeners in a later pass', () => {
+        const a = new State(1);
+        const b = new State(0);
+        a.subscribe(() => b.value = a.value * 2);
+        const passes: number[] = [];
+        b.subscribe(() => passes.push(Pipe.flushCount));
+
+        a.value = 2;
+
+        expect(b.value).toBe(4);
+        expect(passes).toHaveLength(1);
+    });
+
+    it('notifies every listener when one throws, and then throws a ListenerError', () => {
+        const a = new State(1);
+        const failure = new Error('listener failed');
+        let notified = 0;
+        a.subscribe(() => {
+            throw failure;
+        });
+        a.subscribe(() => notified++);
+
+        let thrown: unknown;
+        try {
+            a.value = 2;
+        }
+        catch (err) {
+            thrown = err;
+        }
+
+        expect(thrown).toBeInstanceOf(ListenerError);
+        expect((thrown as ListenerError).errors).toEqual([failure]);
+        expect(notified).toBe(1);
+    });
+
+    it('only observes sources while it is observed itself', () => {
+        const a = new State(1);
+        const b = a.project(x => x + 1);
+        expect(a.listenerCount).toBe(0);
+        expect(b.value).toBe(2);
+
+        const token = b.subscribe(() => { });
+        a.value = 5;
+        expect(b.value).toBe(6);
+
+        b.unsubscribe(token);
+        a.value = 7;
+        expect(b.value).toBe(8);
+    });
+});
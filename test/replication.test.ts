@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DuplicateStateError, Replicator, State, StateArray } from '../index';
+
+const ports: MessagePort[] = [];
+
+/** Creates a replicator on each side of a message channel. */
+function connect() {
+    const { port1, port2 } = new MessageChannel();
+    ports.push(port1, port2);
+    return [new Replicator(port1), new Replicator(port2)];
+}
+
+/** Waits for the messages that are on their way to be handled. */
+function delivered() {
+    return new Promise(resolve => setTimeout(resolve, 20));
+}
+
+afterEach(() => {
+    ports.forEach(x => x.close());
+    ports.length = 0;
+});
+
+describe('Replicator', () => {
+    it('sends a snapshot to new replicas, and then the changes', async () => {
+        const [primary, secondary] = connect();
+        const count = primary.share('count', new State(1));
+        const replica = secondary.replica('count', 0);
+        expect(replica.value).toBe(0);
+
+        await delivered();
+        expect(replica.value).toBe(1);
+
+        count.value = 2;
+        await delivered();
+        expect(replica.value).toBe(2);
+    });
+
+    it('sends replicas created before the state is shared a snapshot once it is', async () => {
+        const [primary, secondary] = connect();
+        const replica = secondary.replica('count', 0);
+        await delivered();
+
+        primary.share('count', new State(5));
+        await delivered();
+        expect(replica.value).toBe(5);
+    });
+
+    it('replicates the changes made to array states', async () => {
+        const [primary, secondary] = connect();
+        const items = primary.share('items', new StateArray(['a']));
+        const replica = secondary.arrayReplica<string>('items');
+        await delivered();
+        expect(replica.value).toEqual(['a']);
+
+        items.push('b');
+        items.removeAt(0);
+        await delivered();
+        expect(replica.value).toEqual(['b']);
+    });
+
+    it('sends the writes to writable replicas to the shared state', async () => {
+        const [primary, secondary] = connect();
+        const count = primary.share('count', new State(1));
+        const replica = secondary.replica('count', 0, { writable: true });
+        await delivered();
+
+        replica.value = 2;
+        expect(replica.value).toBe(2);
+        await delivered();
+        expect(count.value).toBe(2);
+    });
+
+    it('drops the write of a replica that conflicts with a change to the shared state, and resets the replica', async () => {
+        const [primary, secondary] = connect();
+        const count = primary.share('count', new State(1));
+        const replica = secondary.replica('count', 0, { writable: true });
+        await delivered();
+
+        count.value = 10;
+        replica.value = 20;
+        replica.value = 21;
+        await delivered();
+        expect(count.value).toBe(10);
+        expect(replica.value).toBe(10);
+
+        // Once it has been reset, the replica's writes are accepted again.
+        replica.value = 30;
+        await delivered();
+        expect(count.value).toBe(30);
+        expect(replica.value).toBe(30);
+    });
+
+    it('does not send the writes to read-only replicas', async () => {
+        const [primary, secondary] = connect();
+        const count = primary.share('count', new State(1));
+        const replica = secondary.replica('count', 0) as State<number>;
+        await delivered();
+
+        replica.value = 5;
+        await delivered();
+        expect(count.value).toBe(1);
+    });
+
+    it('rejects a second state under the same name', () => {
+        const [primary] = connect();
+        primary.share('count', new State(1));
+
+        expect(() => primary.share('count', new State(2))).toThrow(DuplicateStateError);
+    });
+
+    it('stops replicating when it is disposed', async () => {
+        const [primary, secondary] = connect();
+        const count = primary.share('count', new State(1));
+        const replica = secondary.replica('count', 0);
+        await delivered();
+
+        secondary.dispose();
+        count.value = 2;
+        await delivered();
+        expect(replica.value).toBe(1);
+    });
+});
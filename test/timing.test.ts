@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ListenerError, Pipe, Scheduler, State } from '../index';
+
+/** A scheduler whose time only passes when {advance} is called. */
+function fakeScheduler() {
+    let now = 0;
+    type Timer = { at: number, callback: () => void };
+    let timers: Timer[] = [];
+    const scheduler: Scheduler = (callback, ms) => {
+        const timer = { at: now + ms, callback };
+        timers.push(timer);
+        return () => timers = timers.filter(x => x !== timer);
+    };
+
+    return {
+        scheduler,
+        get pending() {
+            return timers.length;
+        },
+        /** Runs the timers that are due in {ms} milliseconds, in order. */
+        advance(ms: number) {
+            const end = now + ms;
+            for (let next: Timer | undefined; (next = timers.filter(x => x.at <= end).sort((a, b) => a.at - b.at)[0]);) {
+                timers = timers.filter(x => x !== next);
+                now = next.at;
+                next.callback();
+            }
+            now = end;
+        },
+    };
+}
+
+afterEach(() => Pipe.onUnhandledError(undefined));
+
+describe('debounce', () => {
+    it('takes on the value once it has stopped changing', () => {
+        const time = fakeScheduler();
+        const query = new State('');
+        const debounced = query.debounce(100, time.scheduler);
+        const seen: string[] = [];
+        debounced.subscribe(() => seen.push(debounced.value));
+
+        query.value = 'a';
+        time.advance(50);
+        query.value = 'ab';
+        time.advance(99);
+        expect(seen).toEqual([]);
+        expect(debounced.value).toBe('');
+
+        time.advance(1);
+        expect(seen).toEqual(['ab']);
+    });
+
+    it('only waits while it is observed', () => {
+        const time = fakeScheduler();
+        const query = new State('a');
+        const debounced = query.debounce(100, time.scheduler);
+
+        query.value = 'b';
+        expect(time.pending).toBe(0);
+        expect(debounced.value).toBe('b');
+
+        const token = debounced.subscribe(() => { });
+        query.value = 'c';
+        expect(time.pending).toBe(1);
+
+        debounced.unsubscribe(token);
+        expect(time.pending).toBe(0);
+    });
+});
+
+describe('throttle', () => {
+    it('takes on the first change at once, and the last change of each period when it ends', () => {
+        const time = fakeScheduler();
+        const position = new State(0);
+        const throttled = position.throttle(100, time.scheduler);
+        const seen: number[] = [];
+        throttled.subscribe(() => seen.push(throttled.value));
+
+        position.value = 1;
+        position.value = 2;
+        position.value = 3;
+        expect(seen).toEqual([1]);
+
+        time.advance(100);
+        expect(seen).toEqual([1, 3]);
+
+        time.advance(100);
+        expect(seen).toEqual([1, 3]);
+    });
+});
+
+describe('interval', () => {
+    it('counts periods while it is observed', () => {
+        const time = fakeScheduler();
+        const ticks = Pipe.interval(10, time.scheduler);
+        expect(time.pending).toBe(0);
+
+        const seen: number[] = [];
+        const token = ticks.subscribe(() => seen.push(ticks.value));
+        time.advance(30);
+        expect(seen).toEqual([1, 2, 3]);
+
+        ticks.unsubscribe(token);
+        expect(time.pending).toBe(0);
+    });
+});
+
+describe('errors thrown by listeners in timers', () => {
+    it('are reported rather than thrown to the scheduler', () => {
+        const time = fakeScheduler();
+        const reported: unknown[] = [];
+        Pipe.onUnhandledError(error => reported.push(error));
+        const query = new State('');
+        const debounced = query.debounce(10, time.scheduler);
+        debounced.subscribe(() => {
+            throw new Error('listener failed');
+        });
+
+        query.value = 'a';
+        expect(() => time.advance(10)).not.toThrow();
+
+        expect(reported).toHaveLength(1);
+        expect(reported[0]).toBeInstanceOf(ListenerError);
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Pipe, State, StateArray } from '../index';
+
+describe('batch', () => {
+    it('defers notifications until the outermost batch finishes, and notifies once', () => {
+        const a = new State(1);
+        const b = new State(2);
+        const sum = Pipe.computed(() => a.value + b.value);
+        const seen: number[] = [];
+        sum.subscribe(() => seen.push(sum.value));
+
+        Pipe.batch(() => {
+            a.value = 10;
+            Pipe.batch(() => b.value = 20);
+            expect(seen).toEqual([]);
+        });
+
+        expect(seen).toEqual([30]);
+    });
+});
+
+describe('transaction', () => {
+    it('keeps its writes when it succeeds', () => {
+        const a = new State(1);
+
+        Pipe.transaction(() => a.value = 2);
+
+        expect(a.value).toBe(2);
+    });
+
+    it('restores the states it wrote when it throws, and rethrows', () => {
+        const a = new State(1);
+        const items = new StateArray(['x']);
+        const failure = new Error('failed');
+
+        expect(() => Pipe.transaction(() => {
+            a.value = 2;
+            a.value = 3;
+            items.push('y');
+            throw failure;
+        })).toThrow(failure);
+
+        expect(a.value).toBe(1);
+        expect(items.value).toEqual(['x']);
+    });
+
+    it('does not notify listeners of writes that were rolled back', () => {
+        const a = new State(1);
+        const seen: number[] = [];
+        a.subscribe(() => seen.push(a.value));
+
+        expect(() => Pipe.transaction(() => {
+            a.value = 2;
+            throw new Error('failed');
+        })).toThrow();
+
+        expect(seen.every(x => x === 1)).toBe(true);
+    });
+
+    it('rolls back the writes of a committed inner transaction when the outer one throws', () => {
+        const a = new State(1);
+        const b = new State('a');
+
+        expect(() => Pipe.transaction(() => {
+            Pipe.transaction(() => a.value = 2);
+            b.value = 'b';
+            throw new Error('failed');
+        })).toThrow();
+
+        expect(a.value).toBe(1);
+        expect(b.value).toBe('a');
+    });
+
+    it('keeps the writes of the outer transaction when an inner one throws and is caught', () => {
+        const a = new State(1);
+        const b = new State(1);
+
+        Pipe.transaction(() => {
+            a.value = 2;
+            try {
+                Pipe.transaction(() => {
+                    b.value = 2;
+                    throw new Error('failed');
+                });
+            }
+            catch {
+                // The inner writes are rolled back, and the outer transaction carries on.
+            }
+        });
+
+        expect(a.value).toBe(2);
+        expect(b.value).toBe(1);
+    });
+});